@@ -41,6 +41,7 @@ module.exports = {
             'core-concepts/output-validation',
             'core-concepts/error-handling',
             'core-concepts/custom-context',
+            'core-concepts/dependency-injection',
             'core-concepts/middleware',
             'core-concepts/reusable-procedures',
             'core-concepts/combining-routers',
@@ -53,8 +54,16 @@ module.exports = {
             'guides/better-auth-integration',
             'guides/protected-routes',
             'guides/cors-configuration',
+            'guides/websockets',
+            'guides/rate-limiting',
+            'guides/idempotency',
+            'guides/caching',
+            'guides/compression',
+            'guides/logging-and-hooks',
+            'guides/tracing',
             'guides/client-side-usage',
             'guides/openapi-documentation',
+            'guides/api-manifest',
           ],
         },
       ],
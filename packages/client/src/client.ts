@@ -7,6 +7,7 @@ import type {
   ErrorResponse,
   UnexpectedErrorResponse,
   EndpointsWithMethod,
+  ExtractStreamEvent,
 } from "./types.js";
 import { UnexpectedApiClientError, ValidationError } from "./errors.js";
 
@@ -31,6 +32,26 @@ export interface ApiClientOptions<
 // Helper Functions
 // ============================================================================
 
+// application/json and structured suffixes such as application/problem+json
+const JSON_CONTENT_TYPE = /^application\/([\w.-]+\+)?json\b/i;
+
+/**
+ * Describes an error body, using the detail or title of RFC 9457 Problem
+ * Details when present
+ */
+function describeErrorBody(data: unknown, statusText: string): string {
+  if (typeof data === "object" && data !== null) {
+    const { detail, title } = data as { detail?: unknown; title?: unknown };
+    if (typeof detail === "string") {
+      return detail;
+    }
+    if (typeof title === "string") {
+      return title;
+    }
+  }
+  return statusText;
+}
+
 /**
  * Interpolates path parameters into endpoint string
  */
@@ -45,20 +66,83 @@ function interpolatePath(
   return result;
 }
 
+function appendQueryValue(
+  params: URLSearchParams,
+  key: string,
+  value: unknown,
+): void {
+  if (value === undefined || value === null) {
+    return;
+  }
+  if (Array.isArray(value)) {
+    // Repeated keys: tag=a&tag=b
+    for (const item of value) {
+      appendQueryValue(params, key, item);
+    }
+  } else if (value instanceof Date) {
+    params.append(key, value.toISOString());
+  } else if (typeof value === "object") {
+    // Deep objects: filter[status]=open
+    for (const [name, item] of Object.entries(value)) {
+      appendQueryValue(params, `${key}[${name}]`, item);
+    }
+  } else {
+    params.append(key, String(value));
+  }
+}
+
 /**
  * Builds query string from query object
+ * Arrays become repeated keys and objects use deep-object notation, the
+ * styles the server parses and documents
  */
 function buildQueryString(query: Record<string, unknown>): string {
   const params = new URLSearchParams();
   for (const [key, value] of Object.entries(query)) {
-    if (value !== undefined && value !== null) {
-      params.append(key, String(value));
-    }
+    appendQueryValue(params, key, value);
   }
   const queryString = params.toString();
   return queryString ? `?${queryString}` : "";
 }
 
+/**
+ * Parses a text/event-stream body into messages, joining multi-line data fields
+ */
+async function* parseEventStream(
+  body: ReadableStream<Uint8Array>,
+): AsyncGenerator<{ event?: string; data: string }> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return;
+    }
+    buffer += decoder.decode(value, { stream: true });
+    const frames = buffer.split(/\r?\n\r?\n/);
+    buffer = frames.pop() ?? "";
+    for (const frame of frames) {
+      let event: string | undefined;
+      const data: string[] = [];
+      for (const line of frame.split(/\r?\n/)) {
+        const separator = line.indexOf(":");
+        const field = separator === -1 ? line : line.slice(0, separator);
+        const fieldValue =
+          separator === -1 ? "" : line.slice(separator + 1).replace(/^ /, "");
+        if (field === "event") {
+          event = fieldValue;
+        } else if (field === "data") {
+          data.push(fieldValue);
+        }
+      }
+      if (data.length > 0) {
+        yield { event, data: data.join("\n") };
+      }
+    }
+  }
+}
+
 /**
  * Sleep for specified milliseconds
  */
@@ -131,6 +215,98 @@ export class ApiClient<
     return this.request("POST", endpoint as string, options);
   }
 
+  /**
+   * Subscribes to a Server-Sent Events endpoint
+   * Yields each event validated against the endpoint's success response schema
+   * Breaking out of the loop or aborting `signal` closes the connection
+   */
+  async *stream<TEndpoint extends EndpointsWithMethod<TRequest, "GET">>(
+    endpoint: TEndpoint,
+    options: Omit<RequestOptions<TRequest, TEndpoint, "GET">, "retries"> & {
+      signal?: AbortSignal;
+    },
+  ): AsyncGenerator<ExtractStreamEvent<TResponse, TEndpoint>, void, undefined> {
+    const {
+      params = {},
+      query = {},
+      timeout,
+      headers: requestHeaders = {},
+      signal,
+    } = options;
+    const url = this.buildUrl(endpoint, "GET", params, query);
+
+    // `timeout` only applies until the response headers arrive
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    signal?.addEventListener("abort", abort);
+    const timeoutId =
+      timeout !== undefined ? setTimeout(abort, timeout) : undefined;
+
+    try {
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method: "GET",
+          headers: {
+            Accept: "text/event-stream",
+            ...this.options.headers,
+            ...requestHeaders,
+          } as HeadersInit,
+          signal: controller.signal,
+        });
+      } catch (error: unknown) {
+        throw new UnexpectedApiClientError(
+          `Network error: ${error instanceof Error ? error.message : String(error)}`,
+          undefined,
+          url,
+          "GET",
+          error,
+        );
+      } finally {
+        clearTimeout(timeoutId);
+      }
+
+      if (!response.ok || !response.body) {
+        throw new UnexpectedApiClientError(
+          `Unexpected error response: ${response.statusText}`,
+          response.status,
+          endpoint,
+          "GET",
+          await response.text().catch(() => undefined),
+        );
+      }
+
+      const schema = this.options.Response[endpoint]?.["GET"]?.[
+        String(response.status)
+      ];
+      try {
+        for await (const message of parseEventStream(response.body)) {
+          const data: unknown = JSON.parse(message.data);
+          if (message.event === "error") {
+            throw new UnexpectedApiClientError(
+              "Stream failed",
+              undefined,
+              endpoint,
+              "GET",
+              data,
+            );
+          }
+          yield (schema
+            ? validate(schema, data, "Stream event validation failed")
+            : data) as ExtractStreamEvent<TResponse, TEndpoint>;
+        }
+      } catch (error: unknown) {
+        if (signal?.aborted) {
+          return;
+        }
+        throw error;
+      }
+    } finally {
+      signal?.removeEventListener("abort", abort);
+      controller.abort();
+    }
+  }
+
   /**
    * Internal request method
    */
@@ -153,22 +329,13 @@ export class ApiClient<
       headers: requestHeaders = {},
     } = options;
 
-    // Validate and interpolate path
-    const pathParams = this.validatePathParams(endpoint, params, method);
-    const interpolatedPath = interpolatePath(endpoint, pathParams);
-
-    // Validate query if schema exists
-    const queryParams = this.validateQuery(endpoint, method, query);
+    const url = this.buildUrl(endpoint, method, params, query);
 
     // Validate body if schema exists
     if (body !== undefined) {
       this.validateBody(endpoint, method, body);
     }
 
-    // Build URL
-    const queryString = buildQueryString(queryParams);
-    const url = `${this.options.baseUrl}${interpolatedPath}${queryString}`;
-
     // Merge headers
     const headers = {
       "Content-Type": "application/json",
@@ -233,6 +400,22 @@ export class ApiClient<
     );
   }
 
+  /**
+   * Validates path and query parameters and builds the request URL
+   */
+  private buildUrl(
+    endpoint: string,
+    method: string,
+    params: Record<string, unknown>,
+    query: Record<string, unknown>,
+  ): string {
+    const pathParams = this.validatePathParams(endpoint, params, method);
+    const interpolatedPath = interpolatePath(endpoint, pathParams);
+    const queryParams = this.validateQuery(endpoint, method, query);
+    const queryString = buildQueryString(queryParams);
+    return `${this.options.baseUrl}${interpolatedPath}${queryString}`;
+  }
+
   /**
    * Validates path parameters against Request schema
    */
@@ -364,7 +547,7 @@ export class ApiClient<
 
       let data: unknown;
       const contentType = response.headers.get("content-type");
-      if (contentType?.includes("application/json")) {
+      if (contentType && JSON_CONTENT_TYPE.test(contentType)) {
         try {
           data = await response.json();
         } catch {
@@ -435,7 +618,7 @@ export class ApiClient<
       return {
         success: false,
         error: new UnexpectedApiClientError(
-          `Unexpected error response: ${statusText}`,
+          `Unexpected error response: ${describeErrorBody(data, statusText)}`,
           status,
           endpoint,
           method,
@@ -194,6 +194,21 @@ export type ExtractSuccessBody<
       : never
     : never;
 
+/**
+ * Infers the event type of a Server-Sent Events endpoint from its GET success schema
+ */
+export type ExtractStreamEvent<
+  TResponse extends Record<
+    string,
+    Record<string, Record<string, z.ZodTypeAny>>
+  >,
+  TEndpoint extends string,
+> = TEndpoint extends keyof TResponse
+  ? "GET" extends keyof TResponse[TEndpoint]
+    ? ExtractSuccessBody<TResponse, TEndpoint, "GET">
+    : unknown
+  : unknown;
+
 // ============================================================================
 // Discriminated Union Response Type
 // ============================================================================
@@ -1,5 +1,12 @@
-import type { Kafka, Consumer, ConsumerConfig, KafkaConfig } from "kafkajs";
+import type {
+  Kafka,
+  Consumer,
+  ConsumerConfig,
+  EachMessagePayload,
+  KafkaConfig,
+} from "kafkajs";
 import { Kafka as KafkaClass } from "kafkajs";
+import type { Attributes, Tracer } from "@opentelemetry/api";
 import type { z } from "zod";
 import type {
   TypedKafkaContext,
@@ -10,6 +17,7 @@ import type { KafkaProcedure } from "./procedure.js";
 import type { KafkaRouter } from "./router.js";
 import { validateMessage } from "./validation.js";
 import { ProcessingError } from "./errors.js";
+import { recordSpanError, startMessageSpan, withChildSpan } from "./tracing.js";
 
 export interface CreateConsumerOptions {
   kafka: Kafka | KafkaConfig;
@@ -19,6 +27,11 @@ export interface CreateConsumerOptions {
     baseCtx: BaseKafkaContext,
   ) => Promise<Record<string, unknown>> | Record<string, unknown>;
   onError?: (error: Error) => void;
+  /**
+   * Traces each message with child spans for validation, middleware and the
+   * handler, e.g. `trace.getTracer("consumer")` from `@opentelemetry/api`
+   */
+  tracer?: Tracer;
 }
 
 export async function createConsumer<
@@ -39,15 +52,36 @@ export async function createConsumer<
 
   await consumer.connect();
 
-  const procedures = router.getProcedures();
-  const routerMiddleware = router.getMiddleware();
-
-  // Get unique topics from procedures
-  const topics = Array.from(new Set(procedures.map((p) => p.topic)));
+  const topics = Array.from(
+    new Set(router.getProcedures().map((p) => p.topic)),
+  );
 
   // Subscribe to all topics
   await consumer.subscribe({ topics, fromBeginning: false });
 
+  await consumer.run({
+    eachMessage: createMessageHandler(router, options),
+  });
+
+  return consumer;
+}
+
+/**
+ * Processes one message with every procedure of its topic
+ * Separate from createConsumer so messages can be handled without a broker
+ */
+export function createMessageHandler<
+  TCustomContext extends object = Record<string, never>,
+>(
+  router: KafkaRouter<TCustomContext>,
+  options: Pick<CreateConsumerOptions, "createContext" | "onError" | "tracer">,
+): (
+  payload: Pick<EachMessagePayload, "topic" | "partition" | "message">,
+) => Promise<void> {
+  const procedures = router.getProcedures();
+  const routerMiddleware = router.getMiddleware();
+  const tracer = options.tracer;
+
   // Map topics to procedures (a topic can have multiple procedures if merged)
   const topicProcedures = new Map<
     string,
@@ -65,143 +99,170 @@ export async function createConsumer<
     topicProcedures.set(procedure.topic, existing);
   }
 
-  await consumer.run({
-    eachMessage: async ({ topic, partition, message }) => {
-      try {
-        const baseCtx: BaseKafkaContext = {
-          message,
-          topic,
-          partition,
-          offset: message.offset,
-        };
-
-        const proceduresForTopic = topicProcedures.get(topic) ?? [];
+  return async ({ topic, partition, message }) => {
+    const messageSpan = tracer
+      ? await startMessageSpan(tracer, topic, partition, message)
+      : undefined;
+    const traced = <T>(
+      name: string,
+      fn: () => Promise<T> | T,
+      attributes: Attributes = {},
+    ) => withChildSpan(tracer, messageSpan?.context, name, attributes, fn);
 
-        for (const procedure of proceduresForTopic) {
-          // Create custom context
-          const customContext = options.createContext
-            ? await options.createContext(baseCtx)
-            : ({} as TCustomContext);
+    try {
+      const baseCtx: BaseKafkaContext = {
+        message,
+        topic,
+        partition,
+        offset: message.offset,
+      };
 
-          // Validate input
-          const inputConfig = procedure.config.input;
-          const validatedInput = await validateMessage(
-            inputConfig,
-            message.value,
-          );
+      const proceduresForTopic = topicProcedures.get(topic) ?? [];
 
-          const errorFn = (error: unknown): never => {
-            if (!procedure.config.errors) {
-              throw new ProcessingError("Error occurred", error);
-            }
+      for (const procedure of proceduresForTopic) {
+        // Create custom context
+        const customContext = options.createContext
+          ? await options.createContext(baseCtx)
+          : ({} as TCustomContext);
 
-            for (const [_code, schema] of Object.entries(
-              procedure.config.errors,
-            )) {
-              const result = (schema as z.ZodTypeAny).safeParse(error);
-              if (result.success) {
-                const errorResponse = result.data;
-                throw new ProcessingError(
-                  typeof errorResponse === "object" &&
-                  errorResponse !== null &&
-                  "error" in errorResponse &&
-                  typeof errorResponse.error === "object" &&
-                  errorResponse.error !== null &&
-                  "message" in errorResponse.error &&
-                  typeof errorResponse.error.message === "string"
-                    ? errorResponse.error.message
-                    : "Error occurred",
-                  errorResponse,
-                );
-              }
-            }
+        // Validate input
+        const inputConfig = procedure.config.input;
+        const validatedInput = await traced("validation", () =>
+          validateMessage(inputConfig, message.value),
+        );
 
+        const errorFn = (error: unknown): never => {
+          if (!procedure.config.errors) {
             throw new ProcessingError("Error occurred", error);
-          };
+          }
 
-          type ProcedureContext = TypedKafkaContext<
-            InputConfig,
-            z.ZodTypeAny | undefined,
-            Record<string, z.ZodTypeAny> | undefined,
-            TCustomContext
-          >;
-
-          const ctx: ProcedureContext = {
-            ...customContext,
-            ...baseCtx,
-            input: validatedInput as any,
-            error: procedure.config.errors ? errorFn : (undefined as any),
-          } as ProcedureContext;
-
-          let currentCtx: ProcedureContext = ctx;
-          let middlewareIndex = 0;
-
-          const runMiddleware = async (): Promise<ProcedureContext> => {
-            if (middlewareIndex >= procedure.middleware.length) {
-              return currentCtx;
+          for (const [_code, schema] of Object.entries(
+            procedure.config.errors,
+          )) {
+            const result = (schema as z.ZodTypeAny).safeParse(error);
+            if (result.success) {
+              const errorResponse = result.data;
+              throw new ProcessingError(
+                typeof errorResponse === "object" &&
+                errorResponse !== null &&
+                "error" in errorResponse &&
+                typeof errorResponse.error === "object" &&
+                errorResponse.error !== null &&
+                "message" in errorResponse.error &&
+                typeof errorResponse.error.message === "string"
+                  ? errorResponse.error.message
+                  : "Error occurred",
+                errorResponse,
+              );
             }
-            const middleware = procedure.middleware[middlewareIndex++];
-            if (!middleware) {
-              return currentCtx;
+          }
+
+          throw new ProcessingError("Error occurred", error);
+        };
+
+        type ProcedureContext = TypedKafkaContext<
+          InputConfig,
+          z.ZodTypeAny | undefined,
+          Record<string, z.ZodTypeAny> | undefined,
+          TCustomContext
+        >;
+
+        const ctx: ProcedureContext = {
+          ...customContext,
+          ...baseCtx,
+          input: validatedInput as any,
+          error: procedure.config.errors ? errorFn : (undefined as any),
+        } as ProcedureContext;
+
+        let currentCtx: ProcedureContext = ctx;
+        let middlewareIndex = 0;
+
+        const runMiddleware = async (): Promise<ProcedureContext> => {
+          if (middlewareIndex >= procedure.middleware.length) {
+            return currentCtx;
+          }
+          const index = middlewareIndex++;
+          const middleware = procedure.middleware[index];
+          if (!middleware) {
+            return currentCtx;
+          }
+          const next = async (opts?: { ctx: Partial<ProcedureContext> }) => {
+            if (opts?.ctx) {
+              currentCtx = {
+                ...currentCtx,
+                ...opts.ctx,
+              } as ProcedureContext;
             }
-            const result = await middleware({
-              ctx: currentCtx,
-              next: async (opts?: { ctx: Partial<ProcedureContext> }) => {
-                if (opts?.ctx) {
-                  currentCtx = {
-                    ...currentCtx,
-                    ...opts.ctx,
-                  } as ProcedureContext;
-                }
-                const nextResult = await runMiddleware();
-                currentCtx = nextResult;
-                return currentCtx;
-              },
-            });
-            currentCtx = result;
+            const nextResult = await runMiddleware();
+            currentCtx = nextResult;
             return currentCtx;
           };
+          const result = await traced(
+            "middleware",
+            () => middleware({ ctx: currentCtx, next }),
+            middlewareAttributes(
+              routerMiddleware.length + index,
+              middleware.name,
+            ),
+          );
+          currentCtx = result;
+          return currentCtx;
+        };
 
-          // Run router middleware first
-          for (const middleware of routerMiddleware) {
-            const result = await middleware({
-              ctx: currentCtx as BaseKafkaContext,
-              next: async (opts?: { ctx: Partial<BaseKafkaContext> }) => {
-                if (opts?.ctx) {
-                  currentCtx = {
-                    ...currentCtx,
-                    ...opts.ctx,
-                  } as ProcedureContext;
-                }
-                return currentCtx as BaseKafkaContext;
-              },
-            });
-            currentCtx = result as ProcedureContext;
-          }
+        // Run router middleware first
+        for (const [index, middleware] of routerMiddleware.entries()) {
+          const next = async (opts?: { ctx: Partial<BaseKafkaContext> }) => {
+            if (opts?.ctx) {
+              currentCtx = {
+                ...currentCtx,
+                ...opts.ctx,
+              } as ProcedureContext;
+            }
+            return currentCtx as BaseKafkaContext;
+          };
+          const result = await traced(
+            "middleware",
+            () => middleware({ ctx: currentCtx as BaseKafkaContext, next }),
+            middlewareAttributes(index, middleware.name),
+          );
+          currentCtx = result as ProcedureContext;
+        }
 
-          // Run procedure middleware
-          currentCtx = await runMiddleware();
+        // Run procedure middleware
+        currentCtx = await runMiddleware();
 
-          // Run handler - errors will bubble up naturally to Kafka.js
-          const response = await procedure.handler(currentCtx);
+        // Run handler - errors will bubble up naturally to Kafka.js
+        const handlerCtx = currentCtx;
+        const response = await traced("handler", () =>
+          procedure.handler(handlerCtx),
+        );
 
-          // Validate output if schema is provided
-          if (procedure.config.output && response !== undefined) {
-            procedure.config.output.parse(response);
-          }
-        }
-      } catch (error) {
-        if (options.onError) {
-          options.onError(
-            error instanceof Error ? error : new Error(String(error)),
-          );
+        // Validate output if schema is provided
+        if (procedure.config.output && response !== undefined) {
+          procedure.config.output.parse(response);
         }
-        throw error;
       }
-    },
-  });
+    } catch (error) {
+      if (messageSpan) {
+        recordSpanError(messageSpan.span, error);
+      }
+      if (options.onError) {
+        options.onError(
+          error instanceof Error ? error : new Error(String(error)),
+        );
+      }
+      throw error;
+    } finally {
+      messageSpan?.span.end();
+    }
+  };
+}
 
-  return consumer;
+function middlewareAttributes(index: number, name: string) {
+  return {
+    "altstack.middleware.index": index,
+    "altstack.middleware.name": name || undefined,
+  };
 }
 
 function createKafka(config: KafkaConfig): Kafka {
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import { propagation, SpanStatusCode } from "@opentelemetry/api";
+import { W3CTraceContextPropagator } from "@opentelemetry/core";
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+} from "@opentelemetry/sdk-trace-base";
+import type { ReadableSpan } from "@opentelemetry/sdk-trace-base";
+import type { KafkaMessage } from "kafkajs";
+import { z } from "zod";
+import { createMessageHandler } from "./consumer.js";
+import { ProcessingError } from "./errors.js";
+import { createKafkaRouter } from "./router.js";
+
+describe("tracing", () => {
+  const exporter = new InMemorySpanExporter();
+  const provider = new BasicTracerProvider({
+    spanProcessors: [new SimpleSpanProcessor(exporter)],
+  });
+  const tracer = provider.getTracer("test");
+
+  beforeAll(() => {
+    propagation.setGlobalPropagator(new W3CTraceContextPropagator());
+  });
+  afterAll(() => {
+    propagation.disable();
+  });
+  beforeEach(() => {
+    exporter.reset();
+  });
+
+  const router = createKafkaRouter()
+    .use(async function tenant({ next }) {
+      return next();
+    })
+    .topic("orders", {
+      input: { message: z.object({ id: z.string() }) },
+      errors: { INVALID: z.object({ error: z.literal("invalid order") }) },
+    })
+    .handler((ctx) => {
+      if (ctx.input.id === "bad") {
+        ctx.error({ error: "invalid order" });
+      }
+    });
+  const handleMessage = createMessageHandler(router, { tracer });
+
+  const message = (
+    value: unknown,
+    headers: KafkaMessage["headers"] = {},
+  ): KafkaMessage => ({
+    key: null,
+    value: Buffer.from(JSON.stringify(value)),
+    timestamp: "0",
+    attributes: 0,
+    offset: "42",
+    headers,
+  });
+
+  // Renders each span as "name > parent name" to assert the tree shape
+  const tree = (spans: ReadableSpan[]) =>
+    spans.map((span) => {
+      const parent = spans.find(
+        (candidate) =>
+          candidate.spanContext().spanId === span.parentSpanContext?.spanId,
+      );
+      return parent ? `${span.name} > ${parent.name}` : span.name;
+    });
+
+  it("should create a span per message with child spans", async () => {
+    await handleMessage({
+      topic: "orders",
+      partition: 0,
+      message: message({ id: "1" }),
+    });
+    const spans = exporter.getFinishedSpans();
+
+    expect(tree(spans).sort()).toEqual([
+      "handler > orders process",
+      "middleware > orders process",
+      "orders process",
+      "validation > orders process",
+    ]);
+    const root = spans.find((span) => span.name === "orders process");
+    expect(root?.attributes).toMatchObject({
+      "messaging.system": "kafka",
+      "messaging.destination.name": "orders",
+      "messaging.kafka.offset": 42,
+    });
+  });
+
+  it("should record errors thrown via ctx.error", async () => {
+    await expect(
+      handleMessage({
+        topic: "orders",
+        partition: 0,
+        message: message({ id: "bad" }),
+      }),
+    ).rejects.toThrow(ProcessingError);
+
+    for (const name of ["handler", "orders process"]) {
+      const span = exporter
+        .getFinishedSpans()
+        .find((candidate) => candidate.name === name);
+      expect(span?.status.code).toBe(SpanStatusCode.ERROR);
+    }
+  });
+
+  it("should continue the trace of a traceparent message header", async () => {
+    const traceId = "4bf92f3577b34da6a3ce929d0e0e4736";
+    await handleMessage({
+      topic: "orders",
+      partition: 0,
+      message: message(
+        { id: "1" },
+        { traceparent: Buffer.from(`00-${traceId}-00f067aa0ba902b7-01`) },
+      ),
+    });
+
+    const spans = exporter.getFinishedSpans();
+    expect(spans.every((span) => span.spanContext().traceId === traceId)).toBe(
+      true,
+    );
+  });
+});
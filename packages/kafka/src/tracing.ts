@@ -0,0 +1,47 @@
+import { SPAN_KIND_CONSUMER, startSpan } from "@alt-stack/tracing";
+import type {
+  Context as TraceContext,
+  Span,
+  TextMapGetter,
+  Tracer,
+} from "@opentelemetry/api";
+import type { IHeaders, KafkaMessage } from "kafkajs";
+
+export { recordSpanError, withChildSpan } from "@alt-stack/tracing";
+
+// Kafka header values are Buffers, strings or arrays of either
+const headerGetter: TextMapGetter<IHeaders | undefined> = {
+  keys: (headers) => Object.keys(headers ?? {}),
+  get: (headers, key) => {
+    const value = headers?.[key];
+    return (Array.isArray(value) ? value[0] : value)?.toString();
+  },
+};
+
+/**
+ * Starts the span of a message, continuing the trace of its
+ * traceparent/tracestate headers through the global propagator
+ */
+export function startMessageSpan(
+  tracer: Tracer,
+  topic: string,
+  partition: number,
+  message: KafkaMessage,
+): Promise<{ span: Span; context: TraceContext }> {
+  return startSpan(
+    tracer,
+    `${topic} process`,
+    {
+      kind: SPAN_KIND_CONSUMER,
+      attributes: {
+        "messaging.system": "kafka",
+        "messaging.operation.type": "process",
+        "messaging.destination.name": topic,
+        "messaging.destination.partition.id": String(partition),
+        "messaging.kafka.offset": Number(message.offset),
+      },
+    },
+    message.headers,
+    headerGetter,
+  );
+}
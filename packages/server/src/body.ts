@@ -0,0 +1,189 @@
+import type { Context } from "hono";
+import { parseBody } from "hono/utils/body";
+import { z } from "zod";
+import type { InputConfig } from "./types/index.js";
+import {
+  BadRequestError,
+  PayloadTooLargeError,
+  UnsupportedMediaTypeError,
+} from "./errors.js";
+import { decodeRequestBody } from "./compression.js";
+import type { ContentCodec } from "./compression.js";
+
+function unwrapSchema(schema: z.ZodTypeAny): z.ZodTypeAny {
+  const def = schema.def as { type: string; innerType?: z.ZodTypeAny };
+  return def.innerType &&
+    (def.type === "optional" ||
+      def.type === "nullable" ||
+      def.type === "default")
+    ? unwrapSchema(def.innerType)
+    : schema;
+}
+
+/**
+ * Wraps single form values in arrays where the body schema expects an array,
+ * since a field sent once is indistinguishable from a scalar field
+ */
+function normalizeFormData(
+  data: Record<string, unknown>,
+  schema: z.ZodTypeAny,
+): Record<string, unknown> {
+  const unwrapped = unwrapSchema(schema);
+  if (!("shape" in unwrapped) || typeof unwrapped.shape !== "object") {
+    return data;
+  }
+  const shape = unwrapped.shape as Record<string, z.ZodTypeAny>;
+  const normalized: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(data)) {
+    const field = shape[key];
+    normalized[key] =
+      field &&
+      unwrapSchema(field).def.type === "array" &&
+      !Array.isArray(value)
+        ? [value]
+        : value;
+  }
+  return normalized;
+}
+
+export const payloadTooLargeErrorSchema = z.object({
+  error: z.object({
+    code: z.literal("PAYLOAD_TOO_LARGE"),
+    message: z.string(),
+    details: z.object({ limit: z.number() }),
+  }),
+});
+
+export const unsupportedMediaTypeErrorSchema = z.object({
+  error: z.object({
+    code: z.literal("UNSUPPORTED_MEDIA_TYPE"),
+    message: z.string(),
+    details: z.object({ received: z.string().nullable() }),
+  }),
+});
+
+/** 1 MiB */
+export const DEFAULT_BODY_LIMIT = 1024 * 1024;
+
+export interface BodyOptions {
+  /** Bytes, counted after the Content-Encoding is removed */
+  limit: number;
+  codecs?: ContentCodec[];
+}
+
+const requestBodyKey = "altstack.requestBody";
+
+/**
+ * The decoded body read for validation, for handlers and middleware that
+ * need the raw bytes. The request's own body is consumed by then
+ */
+export function getRequestBody(
+  c: Context,
+): Uint8Array<ArrayBuffer> | undefined {
+  return c.get(requestBodyKey) as Uint8Array<ArrayBuffer> | undefined;
+}
+
+// A body read by earlier middleware is only available through the cache of
+// c.req, and still needs to be limited and decoded
+async function getBodyStream(
+  c: Context,
+): Promise<ReadableStream<Uint8Array<ArrayBuffer>> | null> {
+  if (!c.req.raw.bodyUsed) {
+    return c.req.raw.body;
+  }
+  const buffer = await c.req.arrayBuffer().catch(() => {
+    throw new Error(
+      "Request body was consumed without c.req and cannot be validated",
+    );
+  });
+  return new Blob([buffer]).stream();
+}
+
+/**
+ * Reads the raw body, decompressing it according to its Content-Encoding
+ * Throws a 413 PayloadTooLargeError as soon as it exceeds the limit
+ */
+async function readBodyBytes(
+  c: Context,
+  { limit, codecs }: BodyOptions,
+): Promise<Uint8Array<ArrayBuffer>> {
+  const tooLarge = () => new PayloadTooLargeError(undefined, { limit });
+  const contentEncoding = c.req.header("content-encoding");
+  if (!contentEncoding && Number(c.req.header("content-length")) > limit) {
+    throw tooLarge();
+  }
+  const body = await getBodyStream(c);
+  if (!body) {
+    return new Uint8Array();
+  }
+
+  const reader = decodeRequestBody(body, contentEncoding, codecs).getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  for (;;) {
+    const chunk = await reader.read().catch(() => {
+      throw new BadRequestError("Request body could not be decoded");
+    });
+    if (chunk.done) {
+      break;
+    }
+    received += chunk.value.length;
+    if (received > limit) {
+      await reader.cancel().catch(() => {});
+      throw tooLarge();
+    }
+    chunks.push(chunk.value);
+  }
+
+  const bytes = new Uint8Array(received);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  c.set(requestBodyKey, bytes);
+  return bytes;
+}
+
+/**
+ * Reads the request body according to the procedure's declared content type.
+ * JSON bodies that fail to parse fall back to `{}` so validation reports them.
+ */
+export async function readRequestBody(
+  c: Context,
+  input: InputConfig,
+  options: BodyOptions,
+): Promise<unknown> {
+  const contentType = input.contentType ?? "application/json";
+  if (contentType === "application/json") {
+    const bytes = await readBodyBytes(c, options);
+    try {
+      return JSON.parse(new TextDecoder().decode(bytes));
+    } catch {
+      return {};
+    }
+  }
+
+  if (!input.body) {
+    return {};
+  }
+
+  const received = c.req.header("content-type") ?? "";
+  if (!received.toLowerCase().startsWith(contentType)) {
+    throw new UnsupportedMediaTypeError(
+      `Expected ${contentType} request body`,
+      { received: received || null },
+    );
+  }
+
+  const bytes = await readBodyBytes(c, options);
+  const data = await parseBody(
+    new Request(c.req.url, {
+      method: "POST",
+      headers: { "content-type": received },
+      body: bytes,
+    }),
+    { all: true },
+  );
+  return normalizeFormData(data, input.body);
+}
@@ -0,0 +1,125 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import { createServer, generateOpenAPISpec, init, router } from "./index.js";
+import { etagMatches, formatCacheControl } from "./cache.js";
+
+describe("formatCacheControl", () => {
+  it("should write directives in a stable order", () => {
+    expect(
+      formatCacheControl({ maxAge: 60, public: true, staleWhileRevalidate: 30 }),
+    ).toBe("public, max-age=60, stale-while-revalidate=30");
+    expect(formatCacheControl("no-store")).toBe("no-store");
+  });
+});
+
+describe("etagMatches", () => {
+  it("should compare weak tags only weakly", () => {
+    expect(etagMatches('W/"1", "2"', '"1"', "weak")).toBe(true);
+    expect(etagMatches('W/"1"', '"1"', "strong")).toBe(false);
+    expect(etagMatches('"1"', '"1"', "strong")).toBe(true);
+    expect(etagMatches("*", '"1"', "strong")).toBe(true);
+  });
+});
+
+describe("caching", () => {
+  const t = init();
+  const todo = { id: "1", title: "Write docs", version: 3 };
+  const todoSchema = z.object({ id: z.string(), title: z.string() });
+  const api = router({
+    "/todos/{id}": {
+      get: t.procedure
+        .input({ params: z.object({ id: z.string() }) })
+        .output(todoSchema)
+        .cache({ cacheControl: { private: true, maxAge: 60 } })
+        .handler(() => todo),
+      put: t.procedure
+        .input({
+          params: z.object({ id: z.string() }),
+          body: z.object({ title: z.string() }),
+        })
+        .output(todoSchema)
+        .cache()
+        .handler(({ input, ctx }) => {
+          ctx.ifMatch(todo.version);
+          ctx.setETag(todo.version + 1);
+          return { id: todo.id, title: input.title };
+        }),
+    },
+    "/versioned": t.procedure
+      .output(todoSchema)
+      .cache({ etag: "weak" })
+      .get(({ ctx }) => {
+        ctx.setETag(todo.version, { weak: true });
+        return todo;
+      }),
+  });
+  const app = createServer({ api });
+
+  it("should answer matching If-None-Match requests with a 304", async () => {
+    const res = await app.request("/api/todos/1");
+    const etag = res.headers.get("etag")!;
+
+    expect(res.status).toBe(200);
+    expect(etag).toMatch(/^"[\w-]+"$/);
+    expect(res.headers.get("cache-control")).toBe("private, max-age=60");
+    expect(await res.json()).toEqual({ id: "1", title: "Write docs" });
+
+    const revalidated = await app.request("/api/todos/1", {
+      headers: { "if-none-match": `W/${etag}` },
+    });
+    expect(revalidated.status).toBe(304);
+    expect(revalidated.headers.get("etag")).toBe(etag);
+    expect(await revalidated.text()).toBe("");
+
+    const changed = await app.request("/api/todos/1", {
+      headers: { "if-none-match": '"stale"' },
+    });
+    expect(changed.status).toBe(200);
+  });
+
+  it("should prefer the version passed to ctx.setETag()", async () => {
+    const res = await app.request("/api/versioned");
+    expect(res.headers.get("etag")).toBe('W/"3"');
+
+    const revalidated = await app.request("/api/versioned", {
+      headers: { "if-none-match": 'W/"3"' },
+    });
+    expect(revalidated.status).toBe(304);
+  });
+
+  it("should reject writes whose If-Match is stale with a 412", async () => {
+    const update = (ifMatch: string) =>
+      app.request("/api/todos/1", {
+        method: "PUT",
+        headers: { "content-type": "application/json", "if-match": ifMatch },
+        body: JSON.stringify({ title: "Ship it" }),
+      });
+
+    const stale = await update('"2"');
+    expect(stale.status).toBe(412);
+    expect(await stale.json()).toEqual({
+      error: {
+        code: "PRECONDITION_FAILED",
+        message: "The resource was modified since it was last fetched",
+      },
+    });
+
+    const current = await update('"3"');
+    expect(current.status).toBe(200);
+    expect(current.headers.get("etag")).toBe('"4"');
+  });
+
+  it("should document conditional headers and responses", () => {
+    const spec = generateOpenAPISpec({ api });
+    const get = spec.paths["/api/todos/{id}"]?.get;
+    const put = spec.paths["/api/todos/{id}"]?.put;
+
+    expect(get?.parameters?.map(({ name }) => name)).toContain("If-None-Match");
+    expect(get?.responses["304"]).toEqual({ description: "Not modified" });
+    expect(get?.responses["200"]?.headers?.["Cache-Control"]).toEqual({
+      schema: { type: "string", example: "private, max-age=60" },
+    });
+    expect(put?.parameters?.map(({ name }) => name)).toContain("If-Match");
+    expect(put?.responses["412"]).toBeDefined();
+  });
+});
@@ -0,0 +1,178 @@
+import type { Context } from "hono";
+import { z } from "zod";
+import { PreconditionFailedError } from "./errors.js";
+
+/**
+ * Cache-Control directives, or the raw header value
+ */
+export type CacheControl =
+  | string
+  | {
+      public?: boolean;
+      private?: boolean;
+      noCache?: boolean;
+      noStore?: boolean;
+      mustRevalidate?: boolean;
+      immutable?: boolean;
+      /** Seconds */
+      maxAge?: number;
+      /** Seconds */
+      sMaxAge?: number;
+      /** Seconds */
+      staleWhileRevalidate?: number;
+    };
+
+export interface CacheOptions {
+  /**
+   * Derive the ETag of GET responses from their body, `"weak"` marks it as
+   * weak. Versions passed to `ctx.setETag()` are used instead
+   * Defaults to "strong"
+   */
+  etag?: "strong" | "weak" | false;
+  cacheControl?: CacheControl;
+}
+
+export const preconditionFailedErrorSchema = z.object({
+  error: z.object({
+    code: z.literal("PRECONDITION_FAILED"),
+    message: z.string(),
+  }),
+});
+
+export function formatCacheControl(policy: CacheControl): string {
+  if (typeof policy === "string") {
+    return policy;
+  }
+  const directives: string[] = [];
+  const flags: Array<[boolean | undefined, string]> = [
+    [policy.public, "public"],
+    [policy.private, "private"],
+    [policy.noCache, "no-cache"],
+    [policy.noStore, "no-store"],
+    [policy.mustRevalidate, "must-revalidate"],
+    [policy.immutable, "immutable"],
+  ];
+  for (const [enabled, directive] of flags) {
+    if (enabled) {
+      directives.push(directive);
+    }
+  }
+  const seconds: Array<[number | undefined, string]> = [
+    [policy.maxAge, "max-age"],
+    [policy.sMaxAge, "s-maxage"],
+    [policy.staleWhileRevalidate, "stale-while-revalidate"],
+  ];
+  for (const [value, directive] of seconds) {
+    if (value !== undefined) {
+      directives.push(`${directive}=${value}`);
+    }
+  }
+  return directives.join(", ");
+}
+
+/**
+ * Turns a version into an entity tag, e.g. 42 into "42" or W/"42"
+ */
+export function toETag(version: string | number, weak = false): string {
+  // Entity tags can't contain double quotes
+  const opaque = String(version).replaceAll('"', "");
+  return `${weak ? "W/" : ""}"${opaque}"`;
+}
+
+export async function computeETag(
+  body: string | Uint8Array,
+  weak: boolean,
+): Promise<string> {
+  const bytes =
+    typeof body === "string" ? new TextEncoder().encode(body) : body;
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    bytes as Uint8Array<ArrayBuffer>,
+  );
+  const hash = btoa(String.fromCharCode(...new Uint8Array(digest)))
+    .replaceAll("+", "-")
+    .replaceAll("/", "_")
+    .replace(/=+$/, "");
+  return toETag(hash, weak);
+}
+
+/**
+ * Whether an If-Match or If-None-Match header lists the entity tag
+ * Weak comparison ignores the W/ prefix, strong comparison never matches
+ * weak tags
+ */
+export function etagMatches(
+  header: string,
+  etag: string,
+  comparison: "strong" | "weak",
+): boolean {
+  if (header.trim() === "*") {
+    return true;
+  }
+  const opaque = (tag: string) => tag.trim().replace(/^W\//, "");
+  return header.split(",").some((candidate) => {
+    const tag = candidate.trim();
+    if (comparison === "strong") {
+      return !tag.startsWith("W/") && !etag.startsWith("W/") && tag === etag;
+    }
+    return opaque(tag) === opaque(etag);
+  });
+}
+
+/**
+ * Throws a 412 PreconditionFailedError when the request's If-Match header
+ * doesn't list the current version of the resource
+ * Requests without If-Match pass
+ */
+export function assertIfMatch(c: Context, version: string | number): void {
+  const ifMatch = c.req.header("if-match");
+  if (
+    ifMatch !== undefined &&
+    !etagMatches(ifMatch, toETag(version), "strong")
+  ) {
+    throw new PreconditionFailedError(
+      "The resource was modified since it was last fetched",
+    );
+  }
+}
+
+/**
+ * Sends a cacheable response, or a 304 when the GET request's If-None-Match
+ * lists its ETag
+ */
+export async function sendCacheable(
+  c: Context,
+  options: CacheOptions,
+  response: {
+    body: string | Uint8Array;
+    contentType: string;
+    status: number;
+    etag: string | undefined;
+  },
+): Promise<Response> {
+  const etagMode = options.etag ?? "strong";
+  // HEAD requests are answered by GET procedures
+  const isGet = c.req.method === "GET" || c.req.method === "HEAD";
+  const etag =
+    response.etag ??
+    (etagMode && isGet
+      ? await computeETag(response.body, etagMode === "weak")
+      : undefined);
+  if (etag) {
+    c.header("etag", etag);
+    const ifNoneMatch = c.req.header("if-none-match");
+    if (
+      isGet &&
+      response.status === 200 &&
+      ifNoneMatch !== undefined &&
+      etagMatches(ifNoneMatch, etag, "weak")
+    ) {
+      return c.body(null, 304);
+    }
+  }
+  return c.body(
+    response.body as string | Uint8Array<ArrayBuffer>,
+    response.status as any,
+    { "content-type": response.contentType },
+  );
+}
@@ -0,0 +1,205 @@
+import { describe, it, expect } from "vitest";
+import { Hono } from "hono";
+import { z } from "zod";
+import { createServer, generateOpenAPISpec, init, router } from "./index.js";
+import { gzipCodec, negotiateEncoding } from "./compression.js";
+import type { ContentCodec } from "./compression.js";
+
+const gzip = async (text: string) =>
+  new Uint8Array(
+    await new Response(
+      new Blob([text]).stream().pipeThrough(new CompressionStream("gzip")),
+    ).arrayBuffer(),
+  );
+
+const gunzip = (response: Response) =>
+  new Response(
+    response.body!.pipeThrough(new DecompressionStream("gzip")),
+  ).text();
+
+describe("negotiateEncoding", () => {
+  const identity: ContentCodec = { ...gzipCodec, encoding: "identity" };
+
+  it("should pick by quality, then by the order of the codecs", () => {
+    const codecs = [gzipCodec, identity];
+    expect(negotiateEncoding(codecs, "identity;q=0.5, gzip")).toBe(gzipCodec);
+    expect(negotiateEncoding(codecs, "gzip;q=0.2, *;q=0.5")).toBe(identity);
+    expect(negotiateEncoding(codecs, "gzip;q=0")).toBeUndefined();
+    expect(negotiateEncoding(codecs, undefined)).toBeUndefined();
+  });
+});
+
+describe("request bodies", () => {
+  const t = init();
+  const note = z.object({ text: z.string() });
+  const api = router({
+    "/notes": t.procedure
+      .input({ body: note })
+      .output(note)
+      .post(({ input }) => input),
+    "/avatars": t.procedure
+      .input({ body: note })
+      .output(note)
+      .bodyLimit(16)
+      .post(({ input }) => input),
+  });
+  const app = createServer({ api }, { bodyLimit: 64 });
+  const post = (path: string, body: BodyInit, headers = {}) =>
+    app.request(`/api${path}`, {
+      method: "POST",
+      headers: { "content-type": "application/json", ...headers },
+      body,
+    });
+
+  it("should reject bodies over the limit with a 413", async () => {
+    const text = "x".repeat(100);
+    const res = await post("/notes", JSON.stringify({ text }));
+
+    expect(res.status).toBe(413);
+    expect(await res.json()).toEqual({
+      error: {
+        code: "PAYLOAD_TOO_LARGE",
+        message: "Request body is too large",
+        details: { limit: 64 },
+      },
+    });
+    const small = await post("/notes", JSON.stringify({ text: "hi" }));
+    expect(small.status).toBe(200);
+  });
+
+  it("should apply the limit of the procedure", async () => {
+    const res = await post(
+      "/avatars",
+      JSON.stringify({ text: "x".repeat(20) }),
+    );
+    expect(res.status).toBe(413);
+  });
+
+  it("should count streamed bodies without a Content-Length", async () => {
+    const body = JSON.stringify({ text: "x".repeat(100) });
+    const stream = new Blob([body]).stream();
+    const res = await app.request(
+      new Request("http://localhost/api/notes", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: stream,
+        duplex: "half",
+      } as RequestInit),
+    );
+    expect(res.status).toBe(413);
+  });
+
+  it("should decompress encoded bodies and limit the decoded size", async () => {
+    const encoded = await gzip(JSON.stringify({ text: "hi" }));
+    const res = await post("/notes", encoded, { "content-encoding": "gzip" });
+    expect(await res.json()).toEqual({ text: "hi" });
+
+    // Compresses to well under the limit
+    const bomb = await gzip(JSON.stringify({ text: "x".repeat(10_000) }));
+    expect(bomb.length).toBeLessThan(64);
+    const rejected = await post("/notes", bomb, { "content-encoding": "gzip" });
+    expect(rejected.status).toBe(413);
+  });
+
+  it("should reject unknown and corrupt encodings", async () => {
+    const unknown = await post("/notes", "{}", { "content-encoding": "zstd" });
+    expect(unknown.status).toBe(415);
+
+    const corrupt = await post("/notes", "not gzip", {
+      "content-encoding": "gzip",
+    });
+    expect(corrupt.status).toBe(400);
+  });
+
+  it("should limit and decode bodies already read by middleware", async () => {
+    const wrapped = new Hono();
+    wrapped.use(async (c, next) => {
+      await c.req.arrayBuffer();
+      await next();
+    });
+    wrapped.route("/", app);
+    const send = (body: BodyInit, headers = {}) =>
+      wrapped.request("/api/notes", {
+        method: "POST",
+        headers: { "content-type": "application/json", ...headers },
+        body,
+      });
+
+    const encoded = await gzip(JSON.stringify({ text: "hi" }));
+    const res = await send(encoded, { "content-encoding": "gzip" });
+    expect(await res.json()).toEqual({ text: "hi" });
+
+    const bomb = await gzip(JSON.stringify({ text: "x".repeat(10_000) }));
+    const rejected = await send(bomb, { "content-encoding": "gzip" });
+    expect(rejected.status).toBe(413);
+  });
+
+  it("should document the 413 of procedures that read a body", () => {
+    const spec = generateOpenAPISpec({
+      api,
+      health: router({
+        "/ping": t.procedure.output(z.string()).get(() => "pong"),
+      }),
+    });
+    expect(spec.paths["/api/avatars"]?.post?.responses["413"]).toBeDefined();
+    expect(spec.paths["/api/notes"]?.post?.responses["413"]).toBeDefined();
+    expect(spec.paths["/health/ping"]?.get?.responses["413"]).toBeUndefined();
+  });
+});
+
+describe("response compression", () => {
+  const t = init();
+  const api = router({
+    "/report": t.procedure
+      .input({ query: z.object({ size: z.number() }) })
+      .output(z.object({ rows: z.string() }))
+      .get(({ input }) => ({ rows: "row,".repeat(input.size) })),
+    "/cached": t.procedure
+      .output(z.object({ rows: z.string() }))
+      .cache({})
+      .get(() => ({ rows: "row,".repeat(1000) })),
+    "/ticks": t.procedure.output(z.number()).stream(async function* () {
+      yield 1;
+    }),
+  });
+  const app = createServer({ api }, { compression: { codecs: [gzipCodec] } });
+
+  it("should compress responses the client accepts compressed", async () => {
+    const res = await app.request("/api/report?size=1000", {
+      headers: { "accept-encoding": "br;q=0.9, gzip" },
+    });
+
+    expect(res.headers.get("content-encoding")).toBe("gzip");
+    expect(res.headers.get("vary")).toContain("Accept-Encoding");
+    expect(JSON.parse(await gunzip(res))).toEqual({
+      rows: "row,".repeat(1000),
+    });
+
+    const plain = await app.request("/api/report?size=1000");
+    expect(plain.headers.get("content-encoding")).toBeNull();
+  });
+
+  it("should weaken the ETag of compressed responses", async () => {
+    const plain = await app.request("/api/cached");
+    const etag = plain.headers.get("etag")!;
+    expect(etag).toMatch(/^"/);
+
+    const compressed = await app.request("/api/cached", {
+      headers: { "accept-encoding": "gzip" },
+    });
+    expect(compressed.headers.get("content-encoding")).toBe("gzip");
+    expect(compressed.headers.get("etag")).toBe(`W/${etag}`);
+
+    const revalidated = await app.request("/api/cached", {
+      headers: { "accept-encoding": "gzip", "if-none-match": `W/${etag}` },
+    });
+    expect(revalidated.status).toBe(304);
+  });
+
+  it("should leave event streams uncompressed", async () => {
+    const res = await app.request("/api/ticks", {
+      headers: { "accept-encoding": "gzip" },
+    });
+    expect(res.headers.get("content-encoding")).toBeNull();
+  });
+});
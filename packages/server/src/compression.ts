@@ -0,0 +1,163 @@
+import type { Context } from "hono";
+import { UnsupportedMediaTypeError } from "./errors.js";
+
+/**
+ * A Content-Encoding applied to response bodies and removed from request
+ * bodies, e.g. one built on `zlib.createBrotliCompress()` with `Duplex.toWeb()`
+ */
+export interface ContentCodec {
+  /** e.g. "gzip", matched against Accept-Encoding and Content-Encoding */
+  encoding: string;
+  compress: () => ReadableWritablePair<Uint8Array<ArrayBuffer>, BufferSource>;
+  decompress: () => ReadableWritablePair<Uint8Array<ArrayBuffer>, BufferSource>;
+}
+
+export interface CompressionOptions {
+  /**
+   * Responses with a smaller Content-Length are sent uncompressed
+   * Defaults to 1024 bytes
+   */
+  threshold?: number;
+  /**
+   * In order of preference when the client accepts several
+   * Defaults to br where the runtime supports it, gzip and deflate
+   */
+  codecs?: ContentCodec[];
+}
+
+function streamCodec(encoding: string, format: string): ContentCodec {
+  return {
+    encoding,
+    compress: () => new CompressionStream(format as CompressionFormat),
+    decompress: () => new DecompressionStream(format as CompressionFormat),
+  };
+}
+
+export const gzipCodec = streamCodec("gzip", "gzip");
+export const deflateCodec = streamCodec("deflate", "deflate");
+/**
+ * Throws where CompressionStream doesn't support brotli, e.g. Node.js 20
+ */
+export const brotliCodec = streamCodec("br", "brotli");
+
+function isSupported(codec: ContentCodec): boolean {
+  try {
+    codec.compress();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const builtinCodecs: ContentCodec[] = [
+  brotliCodec,
+  gzipCodec,
+  deflateCodec,
+].filter(isSupported);
+
+// Server-Sent Events are left alone, compression would hold events back
+const COMPRESSIBLE_TYPE =
+  /^\s*(?:text\/(?!event-stream)|application\/(?:[\w.-]+\+)?(?:json|xml|javascript|x-ndjson|msgpack)\b|image\/svg\+xml)/i;
+
+/**
+ * Picks the codec for the Accept-Encoding header by quality, then by the
+ * order of the codecs
+ */
+export function negotiateEncoding(
+  codecs: ContentCodec[],
+  acceptEncoding: string | undefined,
+): ContentCodec | undefined {
+  if (!acceptEncoding) {
+    return undefined;
+  }
+  const qualities = new Map<string, number>();
+  for (const part of acceptEncoding.split(",")) {
+    const [coding = "", ...params] = part.trim().toLowerCase().split(";");
+    const quality = params
+      .map((param) => param.trim().split("="))
+      .find(([name]) => name === "q")?.[1];
+    qualities.set(coding.trim(), quality ? Number(quality) : 1);
+  }
+
+  let best: { codec: ContentCodec; quality: number } | undefined;
+  for (const codec of codecs) {
+    const quality =
+      qualities.get(codec.encoding.toLowerCase()) ?? qualities.get("*") ?? 0;
+    if (quality > 0 && (!best || quality > best.quality)) {
+      best = { codec, quality };
+    }
+  }
+  return best?.codec;
+}
+
+/**
+ * Compresses the response body as it is streamed, when the client accepts
+ * one of the codecs and the content type is worth compressing
+ */
+export function compressResponse(
+  c: Context,
+  response: Response,
+  options: CompressionOptions,
+): Response {
+  const { headers } = response;
+  const contentLength = headers.get("content-length");
+  if (
+    !response.body ||
+    headers.has("content-encoding") ||
+    !COMPRESSIBLE_TYPE.test(headers.get("content-type") ?? "") ||
+    /\bno-transform\b/i.test(headers.get("cache-control") ?? "") ||
+    (contentLength !== null &&
+      Number(contentLength) < (options.threshold ?? 1024))
+  ) {
+    return response;
+  }
+
+  const codec = negotiateEncoding(
+    options.codecs ?? builtinCodecs,
+    c.req.header("accept-encoding"),
+  );
+  const compressed = new Response(
+    codec ? response.body.pipeThrough(codec.compress()) : response.body,
+    response,
+  );
+  compressed.headers.append("vary", "Accept-Encoding");
+  if (codec) {
+    compressed.headers.delete("content-length");
+    compressed.headers.set("content-encoding", codec.encoding);
+    // A strong ETag promises identical bytes, which the encoded body isn't
+    const etag = compressed.headers.get("etag");
+    if (etag && !etag.startsWith("W/")) {
+      compressed.headers.set("etag", `W/${etag}`);
+    }
+  }
+  return compressed;
+}
+
+/**
+ * Removes the Content-Encoding of a request body, e.g. `gzip` or
+ * `deflate, gzip` in the reverse order they were applied
+ * Throws a 415 UnsupportedMediaTypeError for encodings without a codec
+ */
+export function decodeRequestBody(
+  body: ReadableStream<Uint8Array<ArrayBuffer>>,
+  contentEncoding: string | undefined,
+  codecs: ContentCodec[] = builtinCodecs,
+): ReadableStream<Uint8Array<ArrayBuffer>> {
+  const encodings = (contentEncoding ?? "")
+    .split(",")
+    .map((encoding) => encoding.trim().toLowerCase())
+    .filter((encoding) => encoding && encoding !== "identity")
+    .reverse();
+  return encodings.reduce((stream, encoding) => {
+    const codec = codecs.find(
+      (candidate) => candidate.encoding.toLowerCase() === encoding,
+    );
+    if (!codec) {
+      throw new UnsupportedMediaTypeError(
+        `Unsupported content encoding ${encoding}`,
+        { available: codecs.map((candidate) => candidate.encoding) },
+      );
+    }
+    return stream.pipeThrough(codec.decompress());
+  }, body);
+}
@@ -0,0 +1,141 @@
+import { describe, it, expect, expectTypeOf } from "vitest";
+import { createContainer } from "./container.js";
+import type { ServicesOf } from "./container.js";
+import { init } from "./init.js";
+import { createLogger } from "./logger.js";
+
+describe("Container", () => {
+  const build = (log: string[]) =>
+    createContainer()
+      .singleton("config", () => ({ url: "db://test" }))
+      .singleton("pool", ({ config }) => ({ url: config.url }), {
+        dispose: () => void log.push("pool"),
+      })
+      .request("db", ({ pool }) => ({ pool, id: Math.random() }), {
+        dispose: () => void log.push("db"),
+      })
+      .request("repo", async ({ db }) => ({ db }), {
+        dispose: () => void log.push("repo"),
+      });
+
+  it("should type services from their factories", () => {
+    const { services } = build([]).createScope();
+    expectTypeOf(services.config).toEqualTypeOf<{ url: string }>();
+    expectTypeOf(services.repo).resolves.toHaveProperty("db");
+  });
+
+  it("should expose services on ctx alongside a custom context", () => {
+    const services = build([]);
+    const t = init<{ user: string }, ServicesOf<typeof services>>({
+      services,
+    });
+    t.procedure.get(({ ctx }) => {
+      expectTypeOf(ctx.user).toEqualTypeOf<string>();
+      expectTypeOf(ctx.services.config).toEqualTypeOf<{ url: string }>();
+    });
+  });
+
+  it("should construct lazily, once per scope for request services", () => {
+    const container = build([]);
+    const first = container.createScope().services;
+    const second = container.createScope().services;
+    expect(first.db).toBe(first.db);
+    expect(first.db).not.toBe(second.db);
+    expect(first.pool).toBe(second.pool);
+  });
+
+  it("should dispose request services in reverse creation order", async () => {
+    const log: string[] = [];
+    const container = build(log);
+    const scope = container.createScope();
+    await scope.services.repo;
+    await scope.dispose();
+    expect(log).toEqual(["repo", "db"]);
+    await container.dispose();
+    expect(log).toEqual(["repo", "db", "pool"]);
+  });
+
+  it("should apply and restore overrides", () => {
+    const container = build([]);
+    const restore = container.override({ config: () => ({ url: "fake" }) });
+    expect(container.createScope().services.pool.url).toBe("fake");
+    restore();
+    expect(container.createScope().services.config.url).toBe("db://test");
+  });
+
+  it("should keep disposing when a disposer throws", async () => {
+    const log: string[] = [];
+    const scope = createContainer()
+      .request("first", () => 1, { dispose: () => void log.push("first") })
+      .request("broken", () => 2, {
+        dispose: () => {
+          throw new Error("release failed");
+        },
+      })
+      .createScope();
+    expect(scope.services.first).toBe(1);
+    expect(scope.services.broken).toBe(2);
+
+    const error = await scope.dispose().catch((error: unknown) => error);
+    expect(error).toBeInstanceOf(AggregateError);
+    expect((error as AggregateError).errors).toEqual([
+      new Error("release failed"),
+    ]);
+    expect(log).toEqual(["first"]);
+  });
+
+  it("should dispose singletons replaced by overrides", async () => {
+    const log: string[] = [];
+    const container = build(log);
+    expect(container.createScope().services.pool.url).toBe("db://test");
+    const restore = container.override({ pool: () => ({ url: "fake" }) });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(log).toEqual(["pool"]);
+
+    restore();
+    await container.dispose();
+    expect(log).toEqual(["pool"]);
+  });
+
+  it("should log failures to dispose overridden singletons", async () => {
+    const lines: Array<Record<string, unknown>> = [];
+    const container = createContainer({
+      logger: createLogger({
+        write: (line) => void lines.push(JSON.parse(line)),
+      }),
+    }).singleton("pool", () => ({ url: "db://test" }), {
+      dispose: () => {
+        throw new Error("end failed");
+      },
+    });
+    expect(container.createScope().services.pool.url).toBe("db://test");
+    container.override({ pool: () => ({ url: "fake" }) });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(lines).toEqual([
+      expect.objectContaining({
+        level: "error",
+        msg: "failed to dispose overridden service",
+        service: "pool",
+      }),
+    ]);
+  });
+
+  it("should reject singletons that depend on request services", () => {
+    const container = createContainer()
+      .request("user", () => "alice")
+      .singleton("greeting", ({ user }) => `hi ${user}`);
+    expect(() => container.createScope().services.greeting).toThrow(
+      'Singleton service "greeting" cannot depend on request service "user"',
+    );
+  });
+
+  it("should report circular dependencies", () => {
+    const container = createContainer()
+      .request("a", (services: any): unknown => services.b)
+      .request("b", ({ a }) => a);
+    expect(() => container.createScope().services.b).toThrow(
+      "Circular service dependency: b -> a -> b",
+    );
+  });
+});
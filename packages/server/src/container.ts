@@ -0,0 +1,291 @@
+import type { Context } from "hono";
+import type { Logger } from "./logger.js";
+import type { Overwrite } from "./middleware.js";
+
+export type ServiceLifetime = "singleton" | "request";
+
+export interface ServiceOptions<T> {
+  /** Called with the constructed instance when its scope ends */
+  dispose?: (instance: Awaited<T>) => unknown;
+}
+
+export interface ContainerOptions {
+  /**
+   * Receives failures to dispose singletons replaced by `override()`, which
+   * can't throw them. Logged through console.error when omitted
+   */
+  logger?: Logger;
+}
+
+interface ServiceDefinition {
+  lifetime: ServiceLifetime;
+  factory: (services: any) => unknown;
+  dispose?: (instance: any) => unknown;
+}
+
+/**
+ * Lazily constructed services of one request
+ * Request-scoped instances are disposed by `dispose()` in reverse creation order
+ */
+export interface ServiceScope<TServices extends object> {
+  services: TServices;
+  dispose: () => Promise<void>;
+}
+
+/**
+ * Extracts the services type of a container, e.g. for `init<AppContext, ServicesOf<typeof services>>`
+ */
+export type ServicesOf<TContainer> =
+  TContainer extends Container<infer TServices> ? TServices : never;
+
+const serviceScopeKey = "altstack.serviceScope";
+
+/**
+ * Disposes every instance even when some disposers throw, then throws their
+ * errors as an AggregateError
+ */
+async function disposeAll(
+  instances: Array<[definition: ServiceDefinition, instance: unknown]>,
+): Promise<void> {
+  const errors: unknown[] = [];
+  for (const [definition, instance] of instances.splice(0).reverse()) {
+    try {
+      const value = await Promise.resolve(instance).catch(() => undefined);
+      if (value !== undefined) {
+        await definition.dispose?.(value);
+      }
+    } catch (error) {
+      errors.push(error);
+    }
+  }
+  if (errors.length > 0) {
+    throw new AggregateError(errors, "Failed to dispose services");
+  }
+}
+
+/**
+ * Typed dependency injection container
+ * Each registration returns a new container whose factories can depend on
+ * every service registered before it
+ *
+ * @example
+ * ```typescript
+ * const services = createContainer()
+ *   .singleton("pool", () => new Pool(env.DATABASE_URL), {
+ *     dispose: (pool) => pool.end(),
+ *   })
+ *   .request("db", ({ pool }) => pool.connect(), {
+ *     dispose: (client) => client.release(),
+ *   });
+ *
+ * const t = init({ services });
+ * ```
+ */
+export class Container<TServices extends object = object> {
+  private singletons = new Map<string, unknown>();
+  private singletonInstances: Array<[ServiceDefinition, unknown]> = [];
+  private overrides = new Map<string, (services: any) => unknown>();
+
+  constructor(
+    private readonly definitions: Record<string, ServiceDefinition> = {},
+    private readonly options: ContainerOptions = {},
+  ) {}
+
+  /**
+   * Registers a service constructed once and shared by all requests
+   */
+  singleton<TName extends string, T>(
+    name: TName,
+    factory: (services: TServices) => T,
+    options?: ServiceOptions<T>,
+  ): Container<Overwrite<TServices, Record<TName, T>>> {
+    return this.register(name, "singleton", factory, options);
+  }
+
+  /**
+   * Registers a service constructed at most once per request
+   */
+  request<TName extends string, T>(
+    name: TName,
+    factory: (services: TServices) => T,
+    options?: ServiceOptions<T>,
+  ): Container<Overwrite<TServices, Record<TName, T>>> {
+    return this.register(name, "request", factory, options);
+  }
+
+  /**
+   * Replaces service factories, e.g. with fakes in tests
+   * Returns a function that restores the original factories
+   * Singletons already constructed by the replaced factories are disposed
+   */
+  override(overrides: {
+    [K in keyof TServices]?: (services: TServices) => TServices[K];
+  }): () => void {
+    const names = Object.keys(overrides);
+    for (const name of names) {
+      this.overrides.set(name, overrides[name as keyof TServices]!);
+      this.evictSingleton(name);
+    }
+    return () => {
+      for (const name of names) {
+        this.overrides.delete(name);
+        this.evictSingleton(name);
+      }
+    };
+  }
+
+  /**
+   * Creates the service scope of a single request
+   */
+  createScope(): ServiceScope<TServices> {
+    const instances = new Map<string, unknown>();
+    const created: Array<[ServiceDefinition, unknown]> = [];
+    const services = this.createServices((name, definition, resolving) => {
+      if (definition.lifetime === "singleton") {
+        return this.resolveSingleton(name, definition, resolving);
+      }
+      if (!instances.has(name)) {
+        const instance = this.construct(name, definition, services, resolving);
+        instances.set(name, instance);
+        created.push([definition, instance]);
+      }
+      return instances.get(name);
+    });
+    return { services, dispose: () => disposeAll(created) };
+  }
+
+  /**
+   * Disposes all constructed singletons, e.g. on shutdown
+   */
+  async dispose(): Promise<void> {
+    this.singletons.clear();
+    await disposeAll(this.singletonInstances);
+  }
+
+  // override() is synchronous, so failures to dispose are only logged
+  private evictSingleton(name: string): void {
+    if (!this.singletons.has(name)) {
+      return;
+    }
+    const instance = this.singletons.get(name);
+    this.singletons.delete(name);
+    const evicted = this.singletonInstances.filter(
+      ([, constructed]) => constructed === instance,
+    );
+    this.singletonInstances = this.singletonInstances.filter(
+      ([, constructed]) => constructed !== instance,
+    );
+    disposeAll(evicted).catch((error: unknown) => {
+      if (this.options.logger) {
+        this.options.logger.error("failed to dispose overridden service", {
+          service: name,
+          error,
+        });
+      } else {
+        console.error(`Failed to dispose overridden service "${name}":`, error);
+      }
+    });
+  }
+
+  private register(
+    name: string,
+    lifetime: ServiceLifetime,
+    factory: (services: any) => unknown,
+    options?: ServiceOptions<any>,
+  ): Container<any> {
+    return new Container(
+      {
+        ...this.definitions,
+        [name]: { lifetime, factory, dispose: options?.dispose },
+      },
+      this.options,
+    );
+  }
+
+  private createServices(
+    resolve: (
+      name: string,
+      definition: ServiceDefinition,
+      resolving: string[],
+    ) => unknown,
+  ): TServices {
+    const services = {} as TServices;
+    // Tracks the chain being constructed to report circular dependencies
+    const resolving: string[] = [];
+    for (const [name, definition] of Object.entries(this.definitions)) {
+      Object.defineProperty(services, name, {
+        enumerable: true,
+        get: () => resolve(name, definition, resolving),
+      });
+    }
+    return services;
+  }
+
+  private resolveSingleton(
+    name: string,
+    definition: ServiceDefinition,
+    resolving: string[],
+  ): unknown {
+    if (!this.singletons.has(name)) {
+      // Singletons only see other singletons, so they never capture request state
+      const services = this.createServices((dependency, dependencyDef) => {
+        if (dependencyDef.lifetime === "request") {
+          throw new Error(
+            `Singleton service "${name}" cannot depend on request service "${dependency}"`,
+          );
+        }
+        return this.resolveSingleton(dependency, dependencyDef, resolving);
+      });
+      const instance = this.construct(name, definition, services, resolving);
+      this.singletons.set(name, instance);
+      this.singletonInstances.push([definition, instance]);
+    }
+    return this.singletons.get(name);
+  }
+
+  private construct(
+    name: string,
+    definition: ServiceDefinition,
+    services: TServices,
+    resolving: string[],
+  ): unknown {
+    if (resolving.includes(name)) {
+      throw new Error(
+        `Circular service dependency: ${[...resolving, name].join(" -> ")}`,
+      );
+    }
+    resolving.push(name);
+    try {
+      return (this.overrides.get(name) ?? definition.factory)(services);
+    } finally {
+      resolving.pop();
+    }
+  }
+}
+
+export function createContainer(options?: ContainerOptions): Container {
+  return new Container({}, options);
+}
+
+/**
+ * Returns the request's service scope, creating it on first use
+ */
+export function getServiceScope<TServices extends object>(
+  c: Context,
+  container: Container<TServices>,
+): ServiceScope<TServices> {
+  let scope = c.get(serviceScopeKey) as ServiceScope<TServices> | undefined;
+  if (!scope) {
+    scope = container.createScope();
+    c.set(serviceScopeKey, scope);
+  }
+  return scope;
+}
+
+/**
+ * Disposes the request's service scope if one was created
+ */
+export async function disposeServiceScope(c: Context): Promise<void> {
+  const scope = c.get(serviceScopeKey) as ServiceScope<object> | undefined;
+  await scope?.dispose();
+}
@@ -0,0 +1,108 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import { createServer, init, router } from "./index.js";
+import type { CorsOptions } from "./index.js";
+
+describe("cors", () => {
+  const t = init();
+  const api = router({
+    "/todos/{id}": {
+      get: t.procedure
+        .input({ params: z.object({ id: z.string() }) })
+        .handler(({ input }) => Response.json({ id: input.id })),
+      delete: t.procedure
+        .input({ params: z.object({ id: z.string() }) })
+        .status(204)
+        .handler(() => {}),
+    },
+  });
+  const createApp = (cors: CorsOptions) => createServer({ api }, { cors });
+  const preflight = (
+    app: ReturnType<typeof createApp>,
+    origin: string,
+    headers: Record<string, string> = {},
+  ) =>
+    app.request("/api/todos/1", {
+      method: "OPTIONS",
+      headers: {
+        origin,
+        "access-control-request-method": "DELETE",
+        ...headers,
+      },
+    });
+
+  it("should answer preflight requests with the methods of the path", async () => {
+    const app = createApp({
+      origin: ["https://app.example.com"],
+      maxAge: 600,
+    });
+    const res = await preflight(app, "https://app.example.com", {
+      "access-control-request-headers": "content-type, x-tenant-id",
+    });
+
+    expect(res.status).toBe(204);
+    expect(res.headers.get("access-control-allow-origin")).toBe(
+      "https://app.example.com",
+    );
+    expect(res.headers.get("access-control-allow-methods")).toBe(
+      "GET, DELETE",
+    );
+    expect(res.headers.get("access-control-allow-headers")).toBe(
+      "content-type, x-tenant-id",
+    );
+    expect(res.headers.get("access-control-max-age")).toBe("600");
+    expect(res.headers.get("vary")).toContain("Origin");
+  });
+
+  it("should leave out CORS headers for origins that aren't allowed", async () => {
+    const app = createApp({ origin: /^https:\/\/[a-z]+\.example\.com$/ });
+
+    const allowed = await preflight(app, "https://admin.example.com");
+    expect(allowed.headers.get("access-control-allow-origin")).toBe(
+      "https://admin.example.com",
+    );
+
+    const denied = await preflight(app, "https://example.org");
+    expect(denied.status).toBe(204);
+    expect(denied.headers.get("access-control-allow-origin")).toBeNull();
+    expect(denied.headers.get("access-control-allow-methods")).toBeNull();
+  });
+
+  it("should add CORS headers to actual responses", async () => {
+    const app = createApp({
+      origin: (origin) => origin.endsWith(".example.com"),
+      credentials: true,
+      exposeHeaders: ["X-Request-Id"],
+    });
+    const res = await app.request("/api/todos/1", {
+      headers: { origin: "https://app.example.com" },
+    });
+
+    expect(await res.json()).toEqual({ id: "1" });
+    expect(res.headers.get("access-control-allow-origin")).toBe(
+      "https://app.example.com",
+    );
+    expect(res.headers.get("access-control-allow-credentials")).toBe("true");
+    expect(res.headers.get("access-control-expose-headers")).toBe(
+      "X-Request-Id",
+    );
+  });
+
+  it("should send a wildcard for any origin without credentials", async () => {
+    const app = createApp({ origin: "*" });
+    const res = await app.request("/api/todos/1", {
+      headers: { origin: "https://anywhere.example" },
+    });
+
+    expect(res.headers.get("access-control-allow-origin")).toBe("*");
+    expect(res.headers.get("vary")).toBeNull();
+  });
+
+  it("should reject credentials for any origin", () => {
+    for (const origin of ["*", ["https://app.example", "*"]]) {
+      expect(() => createApp({ origin, credentials: true })).toThrow(
+        'The cors origin "*" cannot be combined with credentials',
+      );
+    }
+  });
+});
@@ -0,0 +1,123 @@
+import type { Context } from "hono";
+
+export interface CorsOptions {
+  /**
+   * Allowed origins: `"*"` for any, a list, a pattern or a function
+   * deciding per request
+   */
+  origin:
+    | string
+    | string[]
+    | RegExp
+    | ((origin: string, c: Context) => boolean | Promise<boolean>);
+  /**
+   * Allow cookies and Authorization headers, sends the request's origin
+   * createServer throws when combined with the `"*"` origin
+   */
+  credentials?: boolean;
+  /** Defaults to the methods of the procedures registered on the path */
+  allowMethods?: string[];
+  /** Defaults to the headers listed in Access-Control-Request-Headers */
+  allowHeaders?: string[];
+  /** Response headers readable by the browser, e.g. "X-Request-Id" */
+  exposeHeaders?: string[];
+  /** Seconds browsers may cache preflight responses */
+  maxAge?: number;
+}
+
+async function isAllowedOrigin(
+  c: Context,
+  options: CorsOptions,
+  origin: string,
+): Promise<boolean> {
+  const allowed = options.origin;
+  if (typeof allowed === "function") {
+    return allowed(origin, c);
+  }
+  if (allowed instanceof RegExp) {
+    return allowed.test(origin);
+  }
+  const origins = Array.isArray(allowed) ? allowed : [allowed];
+  return origins.includes("*") || origins.includes(origin);
+}
+
+/**
+ * Sets Access-Control-Allow-Origin and the headers shared by preflight and
+ * actual responses, returns whether the request's origin is allowed
+ */
+async function setOriginHeaders(
+  c: Context,
+  options: CorsOptions,
+  headers: Headers,
+): Promise<boolean> {
+  const origin = c.req.header("origin");
+  const anyOrigin = options.origin === "*";
+  if (!anyOrigin) {
+    headers.append("vary", "Origin");
+  }
+  if (origin === undefined || !(await isAllowedOrigin(c, options, origin))) {
+    return false;
+  }
+  headers.set("access-control-allow-origin", anyOrigin ? "*" : origin);
+  if (options.credentials) {
+    headers.set("access-control-allow-credentials", "true");
+  }
+  return true;
+}
+
+/**
+ * Adds CORS headers to the response of an actual cross-origin request
+ */
+export async function applyCors(
+  c: Context,
+  options: CorsOptions,
+  response: Response,
+): Promise<Response> {
+  const cors = new Response(response.body, response);
+  if (
+    (await setOriginHeaders(c, options, cors.headers)) &&
+    options.exposeHeaders?.length
+  ) {
+    cors.headers.set(
+      "access-control-expose-headers",
+      options.exposeHeaders.join(", "),
+    );
+  }
+  return cors;
+}
+
+/**
+ * Answers a preflight request for a path serving the given methods
+ */
+export async function sendPreflight(
+  c: Context,
+  options: CorsOptions,
+  methods: string[],
+): Promise<Response> {
+  const headers = new Headers();
+  if (await setOriginHeaders(c, options, headers)) {
+    headers.set(
+      "access-control-allow-methods",
+      (options.allowMethods ?? methods).join(", "),
+    );
+    const requestHeaders = c.req.header("access-control-request-headers");
+    const allowHeaders = options.allowHeaders?.join(", ") ?? requestHeaders;
+    if (allowHeaders) {
+      headers.set("access-control-allow-headers", allowHeaders);
+    }
+    if (!options.allowHeaders) {
+      headers.append("vary", "Access-Control-Request-Headers");
+    }
+    if (options.maxAge !== undefined) {
+      headers.set("access-control-max-age", String(options.maxAge));
+    }
+  }
+  return new Response(null, { status: 204, headers });
+}
+
+export function isPreflight(c: Context): boolean {
+  return (
+    c.req.method === "OPTIONS" &&
+    c.req.header("access-control-request-method") !== undefined
+  );
+}
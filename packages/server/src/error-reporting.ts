@@ -0,0 +1,120 @@
+import type { Context } from "hono";
+import { ServerError } from "./errors.js";
+import { getRequestEvent } from "./hooks.js";
+import { getRequestContext } from "./request-context.js";
+import type { ErrorFormat } from "./problem.js";
+
+/**
+ * What the server knows about the request an unexpected error happened in
+ */
+export interface ErrorReport<TCustomContext extends object = object> {
+  /** Opaque id returned to the client in place of the error's details */
+  errorId: string;
+  requestId: string;
+  method: string;
+  /** Route pattern of the procedure, e.g. /api/users/:id */
+  path: string;
+  c: Context;
+  /** Undefined when the error happened before the context was created */
+  ctx: TCustomContext | undefined;
+}
+
+export type ErrorReporter<TCustomContext extends object = object> = (
+  error: unknown,
+  report: ErrorReport<TCustomContext>,
+) => unknown;
+
+/**
+ * Passed to `default500Error` to build the response of an unexpected error
+ */
+export interface InternalErrorInfo {
+  errorId: string;
+  /** Whether the message and stack may be sent to the client */
+  expose: boolean;
+}
+
+export interface ErrorPolicy {
+  expose: boolean;
+  report?: ErrorReporter<any>;
+  format?: ErrorFormat;
+}
+
+const errorPolicyKey = "altstack.errorPolicy";
+
+/**
+ * Errors are only exposed in development, so a missing NODE_ENV is treated
+ * as production
+ */
+export function isDevelopment(): boolean {
+  return globalThis.process?.env?.NODE_ENV === "development";
+}
+
+export function setErrorPolicy(c: Context, policy: ErrorPolicy): void {
+  c.set(errorPolicyKey, policy);
+}
+
+export function getErrorPolicy(c: Context): ErrorPolicy {
+  return (
+    (c.get(errorPolicyKey) as ErrorPolicy | undefined) ?? {
+      expose: isDevelopment(),
+    }
+  );
+}
+
+/**
+ * Hands an unexpected error to the reporter and returns the id under which
+ * it was reported
+ */
+export async function reportInternalError(
+  c: Context,
+  error: unknown,
+): Promise<InternalErrorInfo> {
+  const errorId = crypto.randomUUID();
+  const policy = getErrorPolicy(c);
+  const { requestId, method, path, log } = getRequestEvent(c);
+  try {
+    await policy.report?.(error, {
+      errorId,
+      requestId,
+      method,
+      path,
+      c,
+      ctx: getRequestContext(c),
+    });
+  } catch (reportError) {
+    log.error("failed to report error", { errorId, error: reportError });
+  }
+  return { errorId, expose: policy.expose };
+}
+
+/**
+ * The `{ code, message, details }` body sent for an unexpected error, by
+ * HTTP responses, SSE error events and WebSocket error frames alike
+ * Messages, stacks and the details of 5xx errors may carry internal state,
+ * so they are only sent when the policy exposes them
+ */
+export function toInternalErrorBody(
+  error: unknown,
+  info: InternalErrorInfo,
+): Record<string, unknown> {
+  if (error instanceof ServerError) {
+    const { details, ...body } = error.toJSON().error;
+    return {
+      ...body,
+      ...(info.expose && details !== undefined ? { details } : {}),
+      errorId: info.errorId,
+    };
+  }
+  return {
+    code: "INTERNAL_SERVER_ERROR",
+    message:
+      info.expose && error instanceof Error
+        ? error.message
+        : "Internal server error",
+    details:
+      info.expose && error instanceof Error && error.stack
+        ? [error.stack]
+        : [],
+    errorId: info.errorId,
+  };
+}
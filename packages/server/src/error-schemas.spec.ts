@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import { findAmbiguousErrors, schemasOverlap } from "./error-schemas.js";
+
+describe("schemasOverlap", () => {
+  it("should tell apart objects with different literal members", () => {
+    expect(
+      schemasOverlap(
+        z.object({ code: z.literal("UNAUTHORIZED"), message: z.string() }),
+        z.object({ code: z.literal("FORBIDDEN"), message: z.string() }),
+      ),
+    ).toBe(false);
+    expect(
+      schemasOverlap(
+        z.object({ code: z.enum(["UNAUTHORIZED", "EXPIRED"]) }),
+        z.object({ code: z.string() }),
+      ),
+    ).toBe(true);
+  });
+
+  it("should treat unknown keys of non-strict objects as accepted", () => {
+    const notFound = z.object({ resource: z.string() });
+    const conflict = z.object({ version: z.number() });
+    expect(schemasOverlap(notFound, conflict)).toBe(true);
+    expect(schemasOverlap(notFound, conflict.strict())).toBe(false);
+    expect(
+      schemasOverlap(
+        z.object({ note: z.string().optional() }),
+        z.strictObject({}),
+      ),
+    ).toBe(true);
+  });
+
+  it("should compare unions, wrappers and value types", () => {
+    expect(schemasOverlap(z.string(), z.number())).toBe(false);
+    expect(schemasOverlap(z.string().nullable(), z.null())).toBe(true);
+    expect(
+      schemasOverlap(z.union([z.number(), z.boolean()]), z.string()),
+    ).toBe(false);
+    expect(
+      schemasOverlap(z.literal(1), z.union([z.string(), z.number()])),
+    ).toBe(true);
+    // Refinements aren't analyzed
+    expect(
+      schemasOverlap(
+        z.string().refine((value) => value.startsWith("a")),
+        z.string().refine((value) => value.startsWith("b")),
+      ),
+    ).toBe(true);
+  });
+});
+
+describe("findAmbiguousErrors", () => {
+  it("should list each pair of overlapping statuses", () => {
+    const body = z.object({ error: z.string() });
+    expect(
+      findAmbiguousErrors({
+        401: body,
+        403: body,
+        404: z.object({ error: z.literal("not found"), id: z.string() }),
+        409: z.object({ error: z.number() }),
+      }),
+    ).toEqual([
+      [401, 403],
+      [401, 404],
+      [403, 404],
+    ]);
+    expect(findAmbiguousErrors(undefined)).toEqual([]);
+  });
+});
@@ -0,0 +1,146 @@
+import type { z } from "zod";
+import { defOf } from "./zod-introspection.js";
+import type { SchemaDef } from "./zod-introspection.js";
+
+// Schemas whose values are distinguishable by their type alone
+const valueTypes = new Set([
+  "string",
+  "number",
+  "int",
+  "boolean",
+  "bigint",
+  "symbol",
+  "null",
+  "undefined",
+  "date",
+  "array",
+  "tuple",
+  "object",
+  "record",
+  "map",
+  "set",
+]);
+
+/**
+ * Values accepted by a literal or enum schema, undefined for other schemas
+ */
+function acceptedValues(def: SchemaDef): unknown[] | undefined {
+  if (def.type === "literal") {
+    return def.values as unknown[];
+  }
+  if (def.type === "enum") {
+    return Object.values(def.entries as Record<string, unknown>);
+  }
+  return undefined;
+}
+
+function objectsOverlap(left: SchemaDef, right: SchemaDef): boolean {
+  const leftShape = left.shape as Record<string, z.ZodTypeAny>;
+  const rightShape = right.shape as Record<string, z.ZodTypeAny>;
+  const isStrict = (def: SchemaDef) =>
+    def.catchall !== undefined &&
+    defOf(def.catchall as z.ZodTypeAny).type === "never";
+
+  for (const [key, schema] of Object.entries(leftShape)) {
+    const other = rightShape[key];
+    if (other) {
+      if (!schemasOverlap(schema, other)) {
+        return false;
+      }
+    } else if (isStrict(right) && !schema.safeParse(undefined).success) {
+      // A strict object rejects the key the other object requires
+      return false;
+    }
+  }
+  for (const [key, schema] of Object.entries(rightShape)) {
+    if (
+      !(key in leftShape) &&
+      isStrict(left) &&
+      !schema.safeParse(undefined).success
+    ) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Whether some value could satisfy both schemas
+ * Refinements and transforms aren't analyzed, so schemas that only differ in
+ * those are reported as overlapping
+ */
+export function schemasOverlap(a: z.ZodTypeAny, b: z.ZodTypeAny): boolean {
+  const left = defOf(a);
+  const right = defOf(b);
+
+  if (left.type === "union") {
+    return (left.options as z.ZodTypeAny[]).some((option) =>
+      schemasOverlap(option, b),
+    );
+  }
+  if (right.type === "union") {
+    return (right.options as z.ZodTypeAny[]).some((option) =>
+      schemasOverlap(a, option),
+    );
+  }
+  if (left.type === "pipe") {
+    return schemasOverlap(left.in as z.ZodTypeAny, b);
+  }
+  if (right.type === "pipe") {
+    return schemasOverlap(a, right.in as z.ZodTypeAny);
+  }
+
+  // optional(), nullable() and default() also accept undefined or null
+  for (const [def, schema, other] of [
+    [left, a, b],
+    [right, b, a],
+  ] as const) {
+    if (
+      def.type === "optional" ||
+      def.type === "nullable" ||
+      def.type === "default"
+    ) {
+      const empty = def.type === "nullable" ? null : undefined;
+      return (
+        (schema.safeParse(empty).success && other.safeParse(empty).success) ||
+        schemasOverlap(def.innerType as z.ZodTypeAny, other)
+      );
+    }
+  }
+
+  const leftValues = acceptedValues(left);
+  if (leftValues) {
+    return leftValues.some((value) => b.safeParse(value).success);
+  }
+  const rightValues = acceptedValues(right);
+  if (rightValues) {
+    return rightValues.some((value) => a.safeParse(value).success);
+  }
+
+  if (left.type === "object" && right.type === "object") {
+    return objectsOverlap(left, right);
+  }
+  if (valueTypes.has(left.type) && valueTypes.has(right.type)) {
+    return left.type === right.type;
+  }
+  return true;
+}
+
+/**
+ * Pairs of declared error statuses whose schemas some error body satisfies
+ * both of, so the status of `ctx.error(body)` can't be inferred from it
+ */
+export function findAmbiguousErrors(
+  errors: Record<number, z.ZodTypeAny> | undefined,
+): Array<[number, number]> {
+  const entries = Object.entries(errors ?? {});
+  const ambiguous: Array<[number, number]> = [];
+  entries.forEach(([status, schema], index) => {
+    for (const [otherStatus, otherSchema] of entries.slice(index + 1)) {
+      if (schemasOverlap(schema, otherSchema)) {
+        ambiguous.push([Number(status), Number(otherStatus)]);
+      }
+    }
+  });
+  return ambiguous;
+}
@@ -64,6 +64,68 @@ export class BadRequestError extends ServerError {
   }
 }
 
+export class MethodNotAllowedError extends ServerError {
+  constructor(message: string = "Method not allowed", details?: unknown) {
+    super(405, "METHOD_NOT_ALLOWED", message, details);
+    this.name = "MethodNotAllowedError";
+  }
+}
+
+export class NotAcceptableError extends ServerError {
+  constructor(message: string = "Not acceptable", details?: unknown) {
+    super(406, "NOT_ACCEPTABLE", message, details);
+    this.name = "NotAcceptableError";
+  }
+}
+
+export class ConflictError extends ServerError {
+  constructor(message: string = "Conflict", details?: unknown) {
+    super(409, "CONFLICT", message, details);
+    this.name = "ConflictError";
+  }
+}
+
+export class PreconditionFailedError extends ServerError {
+  constructor(message: string = "Precondition failed", details?: unknown) {
+    super(412, "PRECONDITION_FAILED", message, details);
+    this.name = "PreconditionFailedError";
+  }
+}
+
+export class PayloadTooLargeError extends ServerError {
+  constructor(
+    message: string = "Request body is too large",
+    details?: unknown,
+  ) {
+    super(413, "PAYLOAD_TOO_LARGE", message, details);
+    this.name = "PayloadTooLargeError";
+  }
+}
+
+export class UnsupportedMediaTypeError extends ServerError {
+  constructor(
+    message: string = "Unsupported media type",
+    details?: unknown,
+  ) {
+    super(415, "UNSUPPORTED_MEDIA_TYPE", message, details);
+    this.name = "UnsupportedMediaTypeError";
+  }
+}
+
+export class UnprocessableEntityError extends ServerError {
+  constructor(message: string = "Unprocessable entity", details?: unknown) {
+    super(422, "UNPROCESSABLE_ENTITY", message, details);
+    this.name = "UnprocessableEntityError";
+  }
+}
+
+export class TooManyRequestsError extends ServerError {
+  constructor(message: string = "Too many requests", details?: unknown) {
+    super(429, "TOO_MANY_REQUESTS", message, details);
+    this.name = "TooManyRequestsError";
+  }
+}
+
 export class InternalServerError extends ServerError {
   constructor(message: string = "Internal server error", details?: unknown) {
     super(500, "INTERNAL_SERVER_ERROR", message, details);
@@ -71,3 +133,15 @@ export class InternalServerError extends ServerError {
   }
 }
 
+/**
+ * A response didn't match the procedure's output schema
+ */
+export class OutputValidationError extends ServerError {
+  constructor(
+    message: string = "Response failed output validation",
+    details?: unknown,
+  ) {
+    super(500, "OUTPUT_VALIDATION_ERROR", message, details);
+    this.name = "OutputValidationError";
+  }
+}
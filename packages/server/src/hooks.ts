@@ -0,0 +1,77 @@
+import type { Context } from "hono";
+import type { ValidationError } from "./errors.js";
+import type { Logger } from "./logger.js";
+
+export interface RequestEvent {
+  c: Context;
+  requestId: string;
+  method: string;
+  /** Route pattern of the procedure, e.g. /api/users/:id */
+  path: string;
+  /** Logger carrying the request id, method and path */
+  log: Logger;
+}
+
+/**
+ * Observability hooks of createServer. Errors thrown by hooks are logged
+ * through the request's logger and never change the response
+ */
+export interface ServerHooks {
+  /** Before input validation and context creation */
+  onRequest?: (event: RequestEvent) => unknown;
+  /** When the request input fails its schemas */
+  onValidationError?: (
+    event: RequestEvent & { error: ValidationError },
+  ) => unknown;
+  /** When middleware or the handler throws anything but a ValidationError */
+  onHandlerError?: (event: RequestEvent & { error: unknown }) => unknown;
+  /** Once the response is produced */
+  onResponse?: (
+    event: RequestEvent & { response: Response; durationMs: number },
+  ) => unknown;
+}
+
+const requestEventKey = "altstack.requestEvent";
+
+// Propagated ids end up in logs and response headers, so only accept plain ones
+const requestIdPattern = /^[\w.:-]{1,128}$/;
+
+/**
+ * Starts tracking a request, reusing a valid incoming x-request-id
+ */
+export function beginRequest(
+  c: Context,
+  method: string,
+  path: string,
+  logger: Logger,
+): RequestEvent {
+  const incoming = c.req.header("x-request-id");
+  const requestId =
+    incoming && requestIdPattern.test(incoming)
+      ? incoming
+      : crypto.randomUUID();
+  const event: RequestEvent = {
+    c,
+    requestId,
+    method,
+    path,
+    log: logger.child({ requestId, method, path }),
+  };
+  c.set(requestEventKey, event);
+  return event;
+}
+
+export function getRequestEvent(c: Context): RequestEvent {
+  return c.get(requestEventKey) as RequestEvent;
+}
+
+export async function runHook<TEvent extends RequestEvent>(
+  hook: ((event: TEvent) => unknown) | undefined,
+  event: TEvent,
+): Promise<void> {
+  try {
+    await hook?.(event);
+  } catch (error) {
+    event.log.error("server hook failed", { error });
+  }
+}
@@ -0,0 +1,204 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import { createServer, generateOpenAPISpec, init, router } from "./index.js";
+import { UnauthorizedError } from "./errors.js";
+import type { IdempotencyOptions } from "./idempotency.js";
+
+describe("idempotency", () => {
+  const createApp = (options?: IdempotencyOptions) => {
+    const t = init();
+    let created = 0;
+    let release: (() => void) | undefined;
+    const app = createServer({
+      api: router({
+        "/orders": t.procedure
+          .idempotent(options)
+          .input({ body: z.object({ item: z.string() }) })
+          .output(z.object({ id: z.number(), item: z.string() }))
+          .status(201)
+          .post(async ({ input, ctx }) => {
+            if (input.item === "slow") {
+              await new Promise<void>((resolve) => (release = resolve));
+            }
+            if (input.item === "fail") {
+              throw new Error("Database unavailable");
+            }
+            ctx.hono.header("x-order", "created");
+            return { id: ++created, item: input.item };
+          }),
+      }),
+    });
+    return { app, created: () => created, release: () => release?.() };
+  };
+
+  const post = (
+    app: ReturnType<typeof createApp>["app"],
+    item: string,
+    key?: string,
+  ) =>
+    app.request("/api/orders", {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        ...(key ? { "idempotency-key": key } : {}),
+      },
+      body: JSON.stringify({ item }),
+    });
+
+  it("should replay the stored response for a repeated key", async () => {
+    const { app, created } = createApp();
+    const first = await post(app, "book", "key-1");
+    const second = await post(app, "book", "key-1");
+
+    expect(first.status).toBe(201);
+    expect(second.status).toBe(201);
+    expect(await second.json()).toEqual(await first.json());
+    expect(second.headers.get("x-order")).toBe("created");
+    expect(second.headers.get("idempotent-replayed")).toBe("true");
+    expect(second.headers.get("x-request-id")).not.toBe(
+      first.headers.get("x-request-id"),
+    );
+    expect(created()).toBe(1);
+
+    await post(app, "book", "key-2");
+    await post(app, "book");
+    expect(created()).toBe(3);
+  });
+
+  it("should reject reusing a key for a different body with 422", async () => {
+    const { app, created } = createApp();
+    await post(app, "book", "key-1");
+    const res = await post(app, "lamp", "key-1");
+
+    expect(res.status).toBe(422);
+    expect((await res.json()).error.code).toBe("UNPROCESSABLE_ENTITY");
+    expect(created()).toBe(1);
+  });
+
+  it("should reject duplicates of an in-flight request with 409", async () => {
+    const { app, release } = createApp();
+    const first = post(app, "slow", "key-1");
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    const duplicate = await post(app, "slow", "key-1");
+    expect(duplicate.status).toBe(409);
+    expect((await duplicate.json()).error.code).toBe("CONFLICT");
+
+    release();
+    expect((await first).status).toBe(201);
+  });
+
+  it("should not store 5xx responses so the request can be retried", async () => {
+    const { app } = createApp();
+    expect((await post(app, "fail", "key-1")).status).toBe(500);
+
+    const retry = await post(app, "fail", "key-1");
+    expect(retry.status).toBe(500);
+    expect(retry.headers.get("idempotent-replayed")).toBeNull();
+  });
+
+  it("should require the header when configured", async () => {
+    const { app, created } = createApp({ required: true });
+    const res = await post(app, "book");
+
+    expect(res.status).toBe(400);
+    expect(created()).toBe(0);
+  });
+
+  it("should check keys after middleware, scoped to the caller", async () => {
+    const t = init<{ user: string | null }>();
+    let created = 0;
+    const app = createServer<{ user: string | null }>(
+      {
+        api: router<{ user: string | null }>({
+          "/orders": t.procedure
+            .use(async ({ ctx, next }) => {
+              if (!ctx.user) {
+                throw new UnauthorizedError();
+              }
+              return next({ ctx: { user: ctx.user } });
+            })
+            .idempotent({ scope: (ctx) => ctx.user })
+            .input({ body: z.object({ item: z.string() }) })
+            .output(z.object({ id: z.number(), user: z.string() }))
+            .post(({ ctx }) => {
+              ctx.hono.header("set-cookie", `session=${ctx.user}`);
+              return { id: ++created, user: ctx.user };
+            }),
+        }),
+      },
+      { createContext: (c) => ({ user: c.req.header("x-user") ?? null }) },
+    );
+    const order = (headers: Record<string, string>) =>
+      app.request("/api/orders", {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          "idempotency-key": "key-1",
+          ...headers,
+        },
+        body: JSON.stringify({ item: "book" }),
+      });
+
+    expect((await order({ "x-user": "alice" })).status).toBe(200);
+    expect((await order({})).status).toBe(401);
+
+    const other = await order({ "x-user": "bob" });
+    expect(await other.json()).toEqual({ id: 2, user: "bob" });
+
+    const replayed = await order({ "x-user": "alice" });
+    expect(replayed.headers.get("idempotent-replayed")).toBe("true");
+    expect(await replayed.json()).toEqual({ id: 1, user: "alice" });
+    expect(replayed.headers.get("set-cookie")).toBeNull();
+    expect(created).toBe(2);
+  });
+
+  it("should replay binary responses unchanged", async () => {
+    const t = init();
+    let created = 0;
+    const app = createServer({
+      api: router({
+        "/orders": t.procedure
+          .idempotent()
+          .output(z.object({ id: z.number(), price: z.number() }))
+          .produces("application/msgpack")
+          .post(() => ({ id: ++created, price: 1.5 })),
+      }),
+    });
+    const order = () =>
+      app.request("/api/orders", {
+        method: "POST",
+        headers: { "idempotency-key": "key-1" },
+      });
+
+    const first = new Uint8Array(await (await order()).arrayBuffer());
+    const replayed = await order();
+    expect(replayed.headers.get("idempotent-replayed")).toBe("true");
+    expect(replayed.headers.get("content-type")).toBe("application/msgpack");
+    expect(new Uint8Array(await replayed.arrayBuffer())).toEqual(first);
+    expect(first.some((byte) => byte >= 0x80)).toBe(true);
+    expect(created).toBe(1);
+  });
+
+  it("should document the Idempotency-Key header", () => {
+    const t = init();
+    const spec = generateOpenAPISpec(
+      {
+        api: router({
+          "/orders": t.procedure
+            .idempotent({ required: true })
+            .post(() => undefined),
+        }),
+      },
+      { title: "Test API", version: "1.0.0" },
+    );
+
+    expect(spec.paths["/api/orders"]?.post?.parameters).toContainEqual(
+      expect.objectContaining({
+        name: "Idempotency-Key",
+        in: "header",
+        required: true,
+      }),
+    );
+  });
+});
@@ -0,0 +1,261 @@
+import type { Context } from "hono";
+import type { BaseContext } from "./types/index.js";
+import { getRequestBody } from "./body.js";
+import {
+  BadRequestError,
+  ConflictError,
+  ServerError,
+  UnprocessableEntityError,
+} from "./errors.js";
+import { sendError } from "./problem.js";
+
+export interface IdempotentResponse {
+  status: number;
+  headers: Array<[name: string, value: string]>;
+  /** Base64, so binary and compressed bodies are replayed unchanged */
+  body: string;
+}
+
+/**
+ * A claimed key. `response` is undefined while the first request is in flight
+ */
+export interface IdempotencyRecord {
+  fingerprint: string;
+  response?: IdempotentResponse;
+}
+
+/**
+ * Storage for idempotency records, shared by all instances of the server
+ * `claim` must be atomic per key, e.g. SET NX on Redis
+ */
+export interface IdempotencyStore {
+  /**
+   * Claims `key` for a new request, or returns the existing record when the
+   * key has already been claimed and has not expired
+   */
+  claim(
+    key: string,
+    fingerprint: string,
+    ttlMs: number,
+  ): Promise<IdempotencyRecord | undefined> | IdempotencyRecord | undefined;
+  /** Stores the response of a claimed key */
+  complete(
+    key: string,
+    response: IdempotentResponse,
+    ttlMs: number,
+  ): Promise<void> | void;
+  /** Frees a claimed key without a response, so the request can be retried */
+  release(key: string): Promise<void> | void;
+}
+
+/**
+ * In-process store, suitable for a single server instance
+ */
+export class MemoryIdempotencyStore implements IdempotencyStore {
+  private entries = new Map<
+    string,
+    { record: IdempotencyRecord; expiresAt: number }
+  >();
+  private nextSweep = 0;
+
+  claim(
+    key: string,
+    fingerprint: string,
+    ttlMs: number,
+  ): IdempotencyRecord | undefined {
+    const now = Date.now();
+    this.sweep(now);
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt > now) {
+      return entry.record;
+    }
+    this.entries.set(key, { record: { fingerprint }, expiresAt: now + ttlMs });
+    return undefined;
+  }
+
+  complete(key: string, response: IdempotentResponse, ttlMs: number): void {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.set(key, {
+        record: { ...entry.record, response },
+        expiresAt: Date.now() + ttlMs,
+      });
+    }
+  }
+
+  release(key: string): void {
+    this.entries.delete(key);
+  }
+
+  private sweep(now: number): void {
+    if (now < this.nextSweep) {
+      return;
+    }
+    this.nextSweep = now + 60_000;
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
+
+export interface IdempotencyOptions<
+  TContext extends BaseContext = BaseContext,
+> {
+  /** Defaults to a MemoryIdempotencyStore per procedure */
+  store?: IdempotencyStore;
+  /** How long responses are replayed for. Defaults to 24 hours */
+  ttlMs?: number;
+  /** Rejects requests without an Idempotency-Key header. Defaults to false */
+  required?: boolean;
+  /**
+   * Whose keys these are, e.g. `(ctx) => ctx.user.id`, so a key sent by one
+   * client never replays the response of another. Runs after middleware
+   */
+  scope?(ctx: TContext): string | Promise<string>;
+}
+
+export interface IdempotencyGuard {
+  /**
+   * Claims the request's Idempotency-Key before the handler runs. Returns
+   * the response to send instead: a replay, or a 400, 409 or 422
+   */
+  claim(c: Context, ctx: BaseContext): Promise<Response | undefined>;
+  /**
+   * Stores the final response of a claimed request, or frees its key when
+   * the response can't be replayed or no response was produced
+   */
+  settle(c: Context, response: Response | undefined): Promise<void>;
+}
+
+interface IdempotencyClaim {
+  store: IdempotencyStore;
+  key: string;
+  ttlMs: number;
+}
+
+const idempotencyClaimKey = "altstack.idempotencyClaim";
+
+// Fingerprints the decoded body read for validation, so it is bound by the
+// same limit
+async function fingerprintRequest(c: Context): Promise<string> {
+  const head = new TextEncoder().encode(`${c.req.method} ${c.req.path}\n`);
+  const body = getRequestBody(c) ?? new Uint8Array();
+  const data = new Uint8Array(head.length + body.length);
+  data.set(head);
+  data.set(body, head.length);
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, "0"),
+  ).join("");
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  // Chunked to stay below the argument limit of String.fromCharCode
+  for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function replay(response: IdempotentResponse): Response {
+  const headers = new Headers(response.headers);
+  headers.set("Idempotent-Replayed", "true");
+  // Null-body statuses reject even an empty body
+  const body =
+    response.status === 204 || response.status === 205
+      ? null
+      : Uint8Array.from(atob(response.body), (char) => char.charCodeAt(0));
+  return new Response(body, { status: response.status, headers });
+}
+
+/**
+ * Makes a procedure run at most once per Idempotency-Key header. Keys are
+ * checked after validation and middleware, so unauthenticated requests never
+ * reach the store. Completed responses are replayed, duplicates of an
+ * in-flight request get a 409 and reusing a key for a different request a 422
+ * 5xx responses are not stored, so the request can be retried
+ */
+export function createIdempotencyGuard(
+  options: IdempotencyOptions,
+): IdempotencyGuard {
+  const store = options.store ?? new MemoryIdempotencyStore();
+  const ttlMs = options.ttlMs ?? 24 * 60 * 60 * 1000;
+
+  return {
+    async claim(c, ctx) {
+      const idempotencyKey = c.req.header("idempotency-key");
+      if (idempotencyKey === undefined && !options.required) {
+        return undefined;
+      }
+
+      const reject = (error: ServerError) =>
+        sendError(c, error.statusCode, error.toJSON().error);
+      if (!idempotencyKey || idempotencyKey.length > 255) {
+        return reject(
+          new BadRequestError(
+            "Idempotency-Key header must be between 1 and 255 characters",
+          ),
+        );
+      }
+      const scope = options.scope
+        ? ` ${encodeURIComponent(await options.scope(ctx))}`
+        : "";
+      const key = `${c.req.method} ${c.req.path}${scope} ${idempotencyKey}`;
+      const fingerprint = await fingerprintRequest(c);
+      const record = await store.claim(key, fingerprint, ttlMs);
+      if (record && record.fingerprint !== fingerprint) {
+        return reject(
+          new UnprocessableEntityError(
+            "Idempotency-Key was already used for a different request",
+          ),
+        );
+      }
+      if (record && !record.response) {
+        return reject(
+          new ConflictError(
+            "A request with this Idempotency-Key is still in progress",
+          ),
+        );
+      }
+      if (record?.response) {
+        return replay(record.response);
+      }
+      c.set(idempotencyClaimKey, { store, key, ttlMs });
+      return undefined;
+    },
+
+    async settle(c, response) {
+      const claim = c.get(idempotencyClaimKey) as IdempotencyClaim | undefined;
+      if (!claim) {
+        return;
+      }
+      c.set(idempotencyClaimKey, undefined);
+      // Streams and WebSocket upgrades cannot be replayed
+      if (
+        !response ||
+        response.status >= 500 ||
+        response.status === 101 ||
+        response.headers.get("content-type")?.includes("text/event-stream")
+      ) {
+        await claim.store.release(claim.key);
+        return;
+      }
+      const body = new Uint8Array(await response.clone().arrayBuffer());
+      await claim.store.complete(
+        claim.key,
+        {
+          status: response.status,
+          // Cookies belong to the client that made the first request
+          headers: [...response.headers].filter(
+            ([name]) => name.toLowerCase() !== "set-cookie",
+          ),
+          body: toBase64(body),
+        },
+        claim.ttlMs,
+      );
+    },
+  };
+}
@@ -1,10 +1,90 @@
 // Main export file
 export { createRouter, mergeRouters, Router, router } from "./router.js";
 export { createServer } from "./server.js";
+export { getRequestContext } from "./request-context.js";
 export { init, publicProcedure } from "./init.js";
+export { Container, createContainer } from "./container.js";
+export type {
+  ContainerOptions,
+  ServiceLifetime,
+  ServiceOptions,
+  ServiceScope,
+  ServicesOf,
+} from "./container.js";
 export type { InitOptions, InitResult } from "./init.js";
 export * from "./errors.js";
 export { createMiddleware } from "./middleware.js";
+export { createLogger } from "./logger.js";
+export type {
+  LogFields,
+  Logger,
+  LoggerOptions,
+  LogLevel,
+} from "./logger.js";
+export type { RequestEvent, ServerHooks } from "./hooks.js";
+export type {
+  ErrorReport,
+  ErrorReporter,
+  InternalErrorInfo,
+} from "./error-reporting.js";
+export {
+  csvSerializer,
+  jsonSerializer,
+  msgpackSerializer,
+  ndjsonSerializer,
+  notAcceptableErrorSchema,
+} from "./serializers.js";
+export type { Serializer } from "./serializers.js";
+export { preconditionFailedErrorSchema } from "./cache.js";
+export type { CacheControl, CacheOptions } from "./cache.js";
+export {
+  getRequestBody,
+  payloadTooLargeErrorSchema,
+  unsupportedMediaTypeErrorSchema,
+} from "./body.js";
+export {
+  brotliCodec,
+  deflateCodec,
+  gzipCodec,
+} from "./compression.js";
+export type { CompressionOptions, ContentCodec } from "./compression.js";
+export type { CorsOptions } from "./cors.js";
+export type { SecurityHeadersOptions } from "./security-headers.js";
+export { describeRoutes, listRoutes } from "./routes.js";
+export type {
+  RouteConflict,
+  RouteConflictMode,
+  RouteDescription,
+  RouteInfo,
+  RouteMetadata,
+} from "./routes.js";
+export { createManifest, findBreakingChanges } from "./manifest.js";
+export type {
+  BreakingChange,
+  JSONSchema,
+  ManifestRoute,
+  RouteManifest,
+} from "./manifest.js";
+export { problemDetailsSchema } from "./problem.js";
+export type { ErrorFormat, ProblemDetails } from "./problem.js";
+export {
+  MemoryRateLimitStore,
+  rateLimit,
+  rateLimitErrorSchema,
+} from "./rate-limit.js";
+export type {
+  RateLimitAlgorithm,
+  RateLimitMiddleware,
+  RateLimitOptions,
+  RateLimitStore,
+} from "./rate-limit.js";
+export { MemoryIdempotencyStore } from "./idempotency.js";
+export type {
+  IdempotencyOptions,
+  IdempotencyRecord,
+  IdempotencyStore,
+  IdempotentResponse,
+} from "./idempotency.js";
 export type {
   Middleware,
   MiddlewareFunction,
@@ -2,6 +2,12 @@ import { Router, mergeRouters } from "./router.js";
 import { BaseProcedureBuilder } from "./procedure-builder.js";
 import { z } from "zod";
 import type { ZodError } from "zod";
+import type { InputVariant } from "./types/index.js";
+import type { Overwrite } from "./middleware.js";
+import { getServiceScope } from "./container.js";
+import type { Container } from "./container.js";
+import type { InternalErrorInfo } from "./error-reporting.js";
+import type { Serializer } from "./serializers.js";
 
 // Default error schemas
 const default400ErrorSchema = z.object({
@@ -14,6 +20,8 @@ const default500ErrorSchema = z.object({
   code: z.literal("INTERNAL_SERVER_ERROR"),
   message: z.string(),
   details: z.array(z.string()),
+  /** Identifies the error in server-side reports */
+  errorId: z.string(),
 });
 
 // Helper type to extract schema from handler return type
@@ -23,36 +31,72 @@ type ExtractSchemaFromHandler<
   ? TSchema
   : never;
 
-export interface InitOptions<TCustomContext extends object = Record<string, never>> {
+export interface InitOptions<
+  TCustomContext extends object = Record<string, never>,
+  TServices extends object = object,
+> {
+  /**
+   * Builds the response of validation errors. The values of headers and
+   * cookies only hold the members their schema declares
+   */
   default400Error?: (
-    errors: Array<[error: ZodError, variant: "body" | "param" | "query", value: unknown]>,
+    errors: Array<[error: ZodError, variant: InputVariant, value: unknown]>,
+  ) => [z.ZodObject<any>, z.infer<z.ZodObject<any>>];
+  /**
+   * Builds the response of unexpected errors. Only include the error's
+   * message or stack when `info.expose` is true
+   */
+  default500Error?: (
+    error: unknown,
+    info: InternalErrorInfo,
   ) => [z.ZodObject<any>, z.infer<z.ZodObject<any>>];
-  default500Error?: (error: unknown) => [z.ZodObject<any>, z.infer<z.ZodObject<any>>];
+  /** Container whose services are exposed on `ctx.services` of `t.procedure` */
+  services?: Container<TServices>;
+  /** Serializers `t.procedure.produces()` can name by media type */
+  serializers?: Serializer[];
 }
 
+// Context of `t.procedure`, with `services` only when a container is given
+type InitContext<
+  TCustomContext extends object,
+  TServices extends object,
+> = keyof TServices extends never
+  ? TCustomContext
+  : Overwrite<TCustomContext, { services: TServices }>;
+
 export interface InitResult<
   TCustomContext extends object = Record<string, never>,
-  TInitOptions extends InitOptions<TCustomContext> | undefined = undefined,
+  TInitOptions extends InitOptions<TCustomContext, any> | undefined = undefined,
+  TServices extends object = object,
 > {
   router: (
     config?: Record<string, Router<TCustomContext> | Router<TCustomContext>[]>,
   ) => Router<TCustomContext>;
   mergeRouters: (...routers: Router<TCustomContext>[]) => Router<TCustomContext>;
   procedure: BaseProcedureBuilder<
-    { params?: never; query?: never; body?: never },
+    {
+      params?: never;
+      query?: never;
+      body?: never;
+      headers?: never;
+      cookies?: never;
+    },
     undefined,
     undefined,
-    TCustomContext
+    InitContext<TCustomContext, TServices>
   >;
   defaultErrorHandlers?: {
     default400Error: TInitOptions extends { default400Error: infer T }
       ? T
       : (
-          errors: Array<[error: ZodError, variant: "body" | "param" | "query", value: unknown]>,
+          errors: Array<[error: ZodError, variant: InputVariant, value: unknown]>,
         ) => [z.ZodObject<any>, z.infer<z.ZodObject<any>>];
     default500Error: TInitOptions extends { default500Error: infer T }
       ? T
-      : (error: unknown) => [z.ZodObject<any>, z.infer<z.ZodObject<any>>];
+      : (
+          error: unknown,
+          info: InternalErrorInfo,
+        ) => [z.ZodObject<any>, z.infer<z.ZodObject<any>>];
     default400ErrorSchema: TInitOptions extends { default400Error: infer T }
       ? T extends (...args: any[]) => [z.ZodObject<any>, any]
         ? ExtractSchemaFromHandler<T>
@@ -68,7 +112,7 @@ export interface InitResult<
 
 // Helper function to create default 400 error instance from accumulated errors
 function createDefault400Error(
-  errors: Array<[ZodError, "body" | "param" | "query", unknown]>,
+  errors: Array<[ZodError, InputVariant, unknown]>,
 ): z.infer<typeof default400ErrorSchema> {
   const allDetails: string[] = [];
 
@@ -87,41 +131,55 @@ function createDefault400Error(
 }
 
 // Helper function to create default 500 error instance
-function createDefault500Error(error: unknown): z.infer<typeof default500ErrorSchema> {
-  const message = error instanceof Error ? error.message : "Internal server error";
-  const details: string[] = [];
-  if (error instanceof Error && error.stack) {
-    details.push(error.stack);
-  }
+function createDefault500Error(
+  error: unknown,
+  { errorId, expose }: InternalErrorInfo,
+): z.infer<typeof default500ErrorSchema> {
+  const exposed = expose && error instanceof Error ? error : undefined;
   return {
     code: "INTERNAL_SERVER_ERROR" as const,
-    message,
-    details,
+    message: exposed?.message ?? "Internal server error",
+    details: exposed?.stack ? [exposed.stack] : [],
+    errorId,
   };
 }
 
 // Export publicProcedure directly
 export const publicProcedure = new BaseProcedureBuilder<
-  { params?: never; query?: never; body?: never },
+  {
+    params?: never;
+    query?: never;
+    body?: never;
+    headers?: never;
+    cookies?: never;
+  },
   undefined,
   undefined,
   Record<string, never>
 >();
 
-export function init<TCustomContext extends object = Record<string, never>>(
-  options?: InitOptions<TCustomContext>,
-): InitResult<TCustomContext, typeof options> {
+export function init<
+  TCustomContext extends object = Record<string, never>,
+  TServices extends object = object,
+>(
+  options?: InitOptions<TCustomContext, TServices>,
+): InitResult<TCustomContext, typeof options, TServices> {
+  const services = options?.services;
+
   // Create default error handlers
   const default400ErrorHandler =
     options?.default400Error ??
-    ((errors: Array<[ZodError, "body" | "param" | "query", unknown]>) => [
+    ((errors: Array<[ZodError, InputVariant, unknown]>) => [
       default400ErrorSchema,
       createDefault400Error(errors),
     ]);
 
   const default500ErrorHandler =
     options?.default500Error ??
-    ((error: unknown) => [default500ErrorSchema, createDefault500Error(error)]);
+    ((error: unknown, info: InternalErrorInfo) => [
+      default500ErrorSchema,
+      createDefault500Error(error, info),
+    ]);
 
   // Extract schemas from handlers
   // Call handlers with dummy data to get the schema (only for type inference, not runtime)
@@ -138,7 +196,10 @@ export function init<TCustomContext extends object = Record<string, never>>(
   const get500Schema = () => {
     if (options?.default500Error) {
       // Call with null to get schema
-      const [schema] = options.default500Error(null);
+      const [schema] = options.default500Error(null, {
+        errorId: "",
+        expose: false,
+      });
       return schema;
     }
     return default500ErrorSchema;
@@ -150,11 +211,28 @@ export function init<TCustomContext extends object = Record<string, never>>(
     ) => new Router<TCustomContext>(config),
     mergeRouters: (...routers: Router<TCustomContext>[]) => mergeRouters(...routers),
     procedure: new BaseProcedureBuilder<
-      { params?: never; query?: never; body?: never },
+      {
+        params?: never;
+        query?: never;
+        body?: never;
+        headers?: never;
+        cookies?: never;
+      },
       undefined,
       undefined,
-      TCustomContext
-    >(),
+      InitContext<TCustomContext, TServices>
+    >(
+      options?.serializers ? { serializers: options.serializers } : undefined,
+      services
+        ? [
+            // Services are constructed lazily from the request's scope
+            async ({ ctx, next }: { ctx: any; next: any }) =>
+              next({
+                ctx: { services: getServiceScope(ctx.hono, services).services },
+              }),
+          ]
+        : undefined,
+    ),
     defaultErrorHandlers: {
       default400Error: default400ErrorHandler,
       default500Error: default500ErrorHandler,
@@ -0,0 +1,85 @@
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  /** Returns a logger adding `fields` to every entry */
+  child(fields: LogFields): Logger;
+}
+
+export interface LoggerOptions {
+  /** Entries below this level are dropped. Defaults to "info" */
+  level?: LogLevel;
+  /** Receives each entry as a line of JSON. Defaults to console.log */
+  write?: (line: string) => void;
+}
+
+const levels: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+// Errors have no enumerable properties, so JSON.stringify would drop them
+function serializeValue(_key: string, value: unknown): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  return value;
+}
+
+/**
+ * Structured logger writing one JSON object per entry, e.g.
+ * `{"level":"info","time":"...","msg":"request completed","requestId":"..."}`
+ */
+export function createLogger(
+  options: LoggerOptions = {},
+  fields: LogFields = {},
+): Logger {
+  const minLevel = levels[options.level ?? "info"];
+  const write = options.write ?? ((line: string) => console.log(line));
+  const log =
+    (level: LogLevel) =>
+    (message: string, entryFields?: LogFields): void => {
+      if (levels[level] < minLevel) {
+        return;
+      }
+      write(
+        JSON.stringify(
+          {
+            level,
+            time: new Date().toISOString(),
+            msg: message,
+            ...fields,
+            ...entryFields,
+          },
+          serializeValue,
+        ),
+      );
+    };
+
+  return {
+    debug: log("debug"),
+    info: log("info"),
+    warn: log("warn"),
+    error: log("error"),
+    child: (childFields) =>
+      createLogger(options, { ...fields, ...childFields }),
+  };
+}
+
+/**
+ * Logger discarding every entry, used when createServer has no logger
+ */
+export const noopLogger: Logger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+  child: () => noopLogger,
+};
@@ -0,0 +1,158 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import {
+  createManifest,
+  describeRoutes,
+  findBreakingChanges,
+  init,
+  rateLimit,
+  rateLimitErrorSchema,
+  router,
+} from "./index.js";
+import type { Router } from "./index.js";
+
+const t = init();
+const todoSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  status: z.enum(["open", "done"]),
+});
+
+const createTodos = (
+  body: z.ZodTypeAny,
+  output: z.ZodTypeAny = todoSchema,
+): Router =>
+  router({
+    "/todos": {
+      get: t.procedure.output(z.array(output)).get(() => []),
+      post: t.procedure
+        .input({ body })
+        .output(output)
+        .status(201)
+        .idempotent()
+        .post(() => ({ id: "1", title: "", status: "open" })),
+    },
+    "/todos/{id}": t.procedure
+      .input({ params: z.object({ id: z.string() }) })
+      .output(output)
+      .cache({ cacheControl: { maxAge: 60 } })
+      .get(({ input }) => ({ id: input.id, title: "", status: "open" })),
+  }).use(rateLimit({ limit: 10, windowMs: 1000 }));
+
+const bodySchema = z.object({
+  title: z.string(),
+  status: z.enum(["open", "done"]).optional(),
+});
+
+describe("describeRoutes", () => {
+  it("should describe each procedure with its schemas", () => {
+    const routes = describeRoutes({ api: createTodos(bodySchema) });
+
+    expect(routes.map(({ method, path }) => `${method} ${path}`)).toEqual([
+      "GET /api/todos",
+      "POST /api/todos",
+      "GET /api/todos/{id}",
+    ]);
+    const [, create, get] = routes;
+    expect(create!.input.body).toBe(bodySchema);
+    expect(create!.output).toBe(todoSchema);
+    expect(create!.errors[429]).toBe(rateLimitErrorSchema);
+    expect(create!.status).toBe(201);
+    expect(create!.middlewareCount).toBe(1);
+    expect(create!.metadata).toEqual({ idempotent: true });
+    expect(get!.metadata).toEqual({ cache: { cacheControl: { maxAge: 60 } } });
+  });
+});
+
+describe("createManifest", () => {
+  it("should serialise schemas as JSON Schema", () => {
+    const manifest = createManifest({ api: createTodos(bodySchema) });
+    const create = manifest.routes[1]!;
+
+    expect(JSON.parse(JSON.stringify(manifest))).toEqual(manifest);
+    expect(create.input.body).toMatchObject({
+      type: "object",
+      required: ["title"],
+    });
+    expect(create.output).toMatchObject({
+      required: ["id", "title", "status"],
+    });
+    expect(Object.keys(create.errors)).toEqual(["429"]);
+  });
+});
+
+describe("findBreakingChanges", () => {
+  const previous = createManifest({ api: createTodos(bodySchema) });
+
+  it("should ignore added routes and optional fields", () => {
+    const next = createManifest({
+      api: [
+        createTodos(
+          bodySchema.extend({ dueDate: z.string().optional() }),
+          todoSchema.extend({ dueDate: z.string().optional() }),
+        ),
+        router({ "/health": t.procedure.get(() => new Response("ok")) }),
+      ],
+    });
+
+    expect(findBreakingChanges(previous, next)).toEqual([]);
+  });
+
+  it("should report removed routes", () => {
+    const next = createManifest({ v2: createTodos(bodySchema) });
+
+    expect(findBreakingChanges(previous, next)).toContainEqual({
+      route: "GET /api/todos/{id}",
+      message: "Route was removed",
+    });
+  });
+
+  it("should report newly required fields and narrowed inputs", () => {
+    const next = createManifest({
+      api: createTodos(
+        z.object({
+          title: z.string(),
+          status: z.enum(["open"]).optional(),
+          priority: z.number(),
+        }),
+      ),
+    });
+
+    expect(findBreakingChanges(previous, next)).toEqual([
+      { route: "POST /api/todos", message: "body.priority is now required" },
+      {
+        route: "POST /api/todos",
+        message: 'body.status no longer accepts "done"',
+      },
+    ]);
+  });
+
+  it("should report outputs clients may not handle", () => {
+    const next = createManifest({
+      api: createTodos(
+        bodySchema,
+        z.object({
+          id: z.string(),
+          title: z.string().nullable(),
+          status: z.enum(["open", "done", "archived"]).optional(),
+        }),
+      ),
+    });
+
+    expect(
+      findBreakingChanges(previous, next).filter(
+        (change) => change.route === "GET /api/todos/{id}",
+      ),
+    ).toEqual([
+      {
+        route: "GET /api/todos/{id}",
+        message: "output.status is no longer always returned",
+      },
+      { route: "GET /api/todos/{id}", message: "output.title can now be null" },
+      {
+        route: "GET /api/todos/{id}",
+        message: 'output.status can now be "archived"',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,309 @@
+import type { z } from "zod";
+import type { Router } from "./router.js";
+import type { BodyContentType } from "./types/index.js";
+import { zodToJSONSchema } from "./openapi.js";
+import { describeRoutes } from "./routes.js";
+import type { RouteMetadata } from "./routes.js";
+import { isPlainObject } from "./zod-introspection.js";
+
+export type JSONSchema = Record<string, unknown>;
+
+export interface ManifestRoute {
+  method: string;
+  path: string;
+  status: number;
+  input: {
+    params?: JSONSchema;
+    query?: JSONSchema;
+    body?: JSONSchema;
+    contentType?: BodyContentType;
+    headers?: JSONSchema;
+    cookies?: JSONSchema;
+  };
+  output?: JSONSchema;
+  errors: Record<string, JSONSchema>;
+  middlewareCount: number;
+  metadata: RouteMetadata;
+}
+
+/**
+ * JSON description of every route, meant to be committed or published with
+ * each release and compared with `findBreakingChanges()`
+ */
+export interface RouteManifest {
+  version: 1;
+  routes: ManifestRoute[];
+}
+
+export interface BreakingChange {
+  /** e.g. "GET /api/users/{id}" */
+  route: string;
+  message: string;
+}
+
+const inputSources = [
+  "params",
+  "query",
+  "body",
+  "headers",
+  "cookies",
+] as const;
+
+// Plain JSON Schema, so nullable schemas keep their null branch
+function toJSONSchema(
+  schema: z.ZodTypeAny,
+  io: "input" | "output",
+): JSONSchema {
+  return zodToJSONSchema(schema, { io, target: "draft-2020-12" });
+}
+
+/**
+ * Describes the routes `createServer` registers for the same config as
+ * JSON, input schemas as accepted and output schemas as returned
+ *
+ * @example
+ * ```typescript
+ * const manifest = createManifest({ api: apiRouter });
+ * await writeFile("api-manifest.json", JSON.stringify(manifest, null, 2));
+ * ```
+ */
+export function createManifest<TCustomContext extends object>(
+  config: Record<string, Router<TCustomContext> | Router<TCustomContext>[]>,
+): RouteManifest {
+  const routes = describeRoutes(config).map((route): ManifestRoute => {
+    const input: ManifestRoute["input"] = {};
+    for (const source of inputSources) {
+      const schema = route.input[source];
+      if (schema) {
+        input[source] = toJSONSchema(schema, "input");
+      }
+    }
+    if (route.input.contentType) {
+      input.contentType = route.input.contentType;
+    }
+    return {
+      method: route.method,
+      path: route.path,
+      status: route.status,
+      input,
+      output: route.output && toJSONSchema(route.output, "output"),
+      errors: Object.fromEntries(
+        Object.entries(route.errors).map(([status, schema]) => [
+          status,
+          toJSONSchema(schema, "output"),
+        ]),
+      ),
+      middlewareCount: route.middlewareCount,
+      metadata: route.metadata,
+    };
+  });
+  return { version: 1, routes };
+}
+
+// ============================================================================
+// Breaking Changes
+// ============================================================================
+
+// Drops the null branch of nullable schemas so their properties are compared
+function unwrapNullable(schema: JSONSchema): JSONSchema {
+  const branches = schema.anyOf;
+  if (!Array.isArray(branches)) {
+    return schema;
+  }
+  const nonNull = branches.filter(
+    (branch) => isPlainObject(branch) && branch.type !== "null",
+  );
+  return nonNull.length === 1 ? (nonNull[0] as JSONSchema) : schema;
+}
+
+// Undefined when the schema doesn't restrict the type
+function schemaTypes(schema: JSONSchema): string[] | undefined {
+  if (typeof schema.type === "string") {
+    return [schema.type];
+  }
+  if (Array.isArray(schema.type)) {
+    return schema.type as string[];
+  }
+  const branches = schema.anyOf ?? schema.oneOf;
+  if (!Array.isArray(branches)) {
+    return undefined;
+  }
+  const types: string[] = [];
+  for (const branch of branches) {
+    const branchTypes = isPlainObject(branch) ? schemaTypes(branch) : undefined;
+    if (!branchTypes) {
+      return undefined;
+    }
+    types.push(...branchTypes);
+  }
+  return types;
+}
+
+function schemaValues(schema: JSONSchema): unknown[] | undefined {
+  if ("const" in schema) {
+    return [schema.const];
+  }
+  return Array.isArray(schema.enum) ? schema.enum : undefined;
+}
+
+function includesType(types: string[], type: string): boolean {
+  return (
+    types.includes(type) || (type === "integer" && types.includes("number"))
+  );
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Reports what the schema on the wider side no longer covers: requests
+ * valid before must stay valid, responses must stay within what clients
+ * already handle
+ */
+function compareSchemas(
+  previous: JSONSchema,
+  next: JSONSchema,
+  direction: "request" | "response",
+  location: string,
+): string[] {
+  const before = unwrapNullable(previous);
+  const after = unwrapNullable(next);
+  const [wider, narrower] =
+    direction === "request" ? [after, before] : [before, after];
+  const notCovered = (value: string) =>
+    direction === "request"
+      ? `${location} no longer accepts ${value}`
+      : `${location} can now be ${value}`;
+  const messages: string[] = [];
+
+  // Nullable schemas are compared as is, null may have been added or removed
+  const [widerTypes, narrowerTypes] = (
+    direction === "request" ? [next, previous] : [previous, next]
+  ).map(schemaTypes);
+  if (widerTypes && narrowerTypes) {
+    for (const type of narrowerTypes) {
+      if (!includesType(widerTypes, type)) {
+        messages.push(notCovered(type));
+      }
+    }
+  }
+
+  const widerValues = schemaValues(wider);
+  const narrowerValues = schemaValues(narrower);
+  if (widerValues && narrowerValues) {
+    for (const value of narrowerValues) {
+      if (!widerValues.some((v) => sameValue(v, value))) {
+        messages.push(notCovered(JSON.stringify(value)));
+      }
+    }
+  } else if (widerValues) {
+    const values = widerValues.map((v) => JSON.stringify(v)).join(", ");
+    messages.push(
+      direction === "request"
+        ? `${location} is now limited to ${values}`
+        : `${location} is no longer limited to ${values}`,
+    );
+  }
+
+  // Newly required inputs, or outputs that are no longer always returned
+  const narrowerRequired = Array.isArray(narrower.required)
+    ? narrower.required
+    : [];
+  const widerRequired = Array.isArray(wider.required) ? wider.required : [];
+  for (const key of widerRequired) {
+    if (!narrowerRequired.includes(key)) {
+      messages.push(
+        direction === "request"
+          ? `${location}.${key} is now required`
+          : `${location}.${key} is no longer always returned`,
+      );
+    }
+  }
+
+  const beforeProperties = isPlainObject(before.properties)
+    ? before.properties
+    : {};
+  const afterProperties = isPlainObject(after.properties)
+    ? after.properties
+    : {};
+  for (const [key, beforeProperty] of Object.entries(beforeProperties)) {
+    const afterProperty = afterProperties[key];
+    if (isPlainObject(beforeProperty) && isPlainObject(afterProperty)) {
+      messages.push(
+        ...compareSchemas(
+          beforeProperty,
+          afterProperty,
+          direction,
+          `${location}.${key}`,
+        ),
+      );
+    }
+  }
+
+  if (isPlainObject(before.items) && isPlainObject(after.items)) {
+    messages.push(
+      ...compareSchemas(before.items, after.items, direction, `${location}[]`),
+    );
+  }
+  return messages;
+}
+
+/**
+ * Compares the manifests of two releases, e.g. in CI, reporting removed
+ * routes, newly required inputs, narrowed input types and outputs clients
+ * may not handle. Added routes and optional inputs aren't breaking
+ */
+export function findBreakingChanges(
+  previous: RouteManifest,
+  next: RouteManifest,
+): BreakingChange[] {
+  const changes: BreakingChange[] = [];
+  const nextRoutes = new Map(
+    next.routes.map((route) => [`${route.method} ${route.path}`, route]),
+  );
+
+  for (const before of previous.routes) {
+    const route = `${before.method} ${before.path}`;
+    const after = nextRoutes.get(route);
+    if (!after) {
+      changes.push({ route, message: "Route was removed" });
+      continue;
+    }
+    const messages: string[] = [];
+    if (before.status !== after.status) {
+      messages.push(
+        `Success status changed from ${before.status} to ${after.status}`,
+      );
+    }
+    if (
+      before.input.body &&
+      after.input.body &&
+      before.input.contentType !== after.input.contentType
+    ) {
+      const contentType = before.input.contentType ?? "application/json";
+      messages.push(`Request body is no longer accepted as ${contentType}`);
+    }
+    for (const source of inputSources) {
+      // Inputs that weren't validated accepted anything
+      messages.push(
+        ...compareSchemas(
+          before.input[source] ?? {},
+          after.input[source] ?? {},
+          "request",
+          source,
+        ),
+      );
+    }
+    messages.push(
+      ...compareSchemas(
+        before.output ?? {},
+        after.output ?? {},
+        "response",
+        "output",
+      ),
+    );
+    changes.push(...messages.map((message) => ({ route, message })));
+  }
+  return changes;
+}
@@ -4,6 +4,7 @@ import {
   generateOpenAPISpec,
   createDocsRouter,
   createServer,
+  router,
 } from "../src/index.js";
 import { z } from "zod";
 
@@ -543,6 +544,263 @@ describe("generateOpenAPISpec", () => {
     expect(spec.openapi).toBe("3.0.0");
     expect(spec.paths).toEqual({});
   });
+
+  it("should emit header and cookie parameters", () => {
+    const t = init();
+    const spec = generateOpenAPISpec({
+      api: router({
+        "/me": t.procedure
+          .input({
+            headers: z.object({ authorization: z.string() }),
+            cookies: z.object({ theme: z.string().optional() }),
+          })
+          .get(() => new Response()),
+      }),
+    });
+
+    expect(spec.paths["/api/me"]?.get?.parameters).toEqual([
+      {
+        name: "authorization",
+        in: "header",
+        required: true,
+        schema: { type: "string" },
+      },
+      {
+        name: "theme",
+        in: "cookie",
+        required: false,
+        schema: { type: "string" },
+      },
+    ]);
+  });
+
+  it("should document multipart bodies under their content type", () => {
+    const t = init();
+    const spec = generateOpenAPISpec({
+      api: router({
+        "/avatar": t.procedure
+          .input({
+            contentType: "multipart/form-data",
+            body: z.object({ image: z.instanceof(Blob) }),
+          })
+          .post(() => new Response()),
+      }),
+    });
+
+    expect(spec.components?.schemas["PostApiAvatarBody"]).toMatchObject({
+      properties: { image: { type: "string", format: "binary" } },
+    });
+    expect(
+      Object.keys(spec.paths["/api/avatar"]?.post?.requestBody?.content ?? {}),
+    ).toEqual(["multipart/form-data"]);
+  });
+
+  it("should document declared success status codes and headers", () => {
+    const t = init();
+    const spec = generateOpenAPISpec({
+      api: router({
+        "/todos": t.procedure
+          .output(z.object({ id: z.string() }))
+          .status(201)
+          .responseHeaders(z.object({ location: z.string() }))
+          .post(() => ({ id: "1" })),
+        "/todos/done": t.procedure.status(204).delete(() => {}),
+      }),
+    });
+
+    const responses = spec.paths["/api/todos"]?.post?.responses;
+    expect(Object.keys(responses ?? {})).toEqual(["201", "405"]);
+    expect(responses?.["201"]?.headers).toEqual({
+      location: { required: true, schema: { type: "string" } },
+    });
+    const deleted = spec.paths["/api/todos/done"]?.delete?.responses;
+    expect(Object.keys(deleted ?? {})).toEqual(["204", "405"]);
+    expect(deleted?.["204"]).toEqual({ description: "Successful response" });
+  });
+
+  it("should document stream procedures as text/event-stream", () => {
+    const t = init();
+    const spec = generateOpenAPISpec({
+      api: router({
+        "/ticks": t.procedure
+          .output(z.object({ n: z.number() }))
+          .stream(async function* () {}),
+      }),
+    });
+
+    expect(
+      spec.paths["/api/ticks"]?.get?.responses["200"]?.content,
+    ).toEqual({
+      "text/event-stream": {
+        schema: { $ref: "#/components/schemas/GetApiTicksResponse" },
+      },
+    });
+  });
+
+  it("should omit websocket procedures", () => {
+    const t = init();
+    const spec = generateOpenAPISpec({
+      api: router({
+        "/chat": t.procedure.websocket({
+          inbound: z.string(),
+          outbound: z.string(),
+          onMessage: () => {},
+        }),
+      }),
+    });
+
+    expect(spec.paths).toEqual({});
+  });
+
+  it("should emit metadata from .meta()", () => {
+    const t = init();
+    const adminProcedure = t.procedure.meta({
+      tags: ["admin"],
+      "x-internal": true,
+    });
+    const spec = generateOpenAPISpec({
+      api: router({
+        "/users/{id}": {
+          get: adminProcedure
+            .input({ params: z.object({ id: z.string() }) })
+            .meta({
+              tags: ["users"],
+              summary: "Get a user",
+              description: "Returns the user with the given id",
+              operationId: "getUser",
+            })
+            .handler(() => new Response()),
+          delete: adminProcedure
+            .input({ params: z.object({ id: z.string() }) })
+            .meta({ deprecated: true })
+            .handler(() => new Response()),
+        },
+      }),
+    });
+
+    expect(spec.paths["/api/users/{id}"]?.get).toMatchObject({
+      operationId: "getUser",
+      summary: "Get a user",
+      description: "Returns the user with the given id",
+      tags: ["admin", "users"],
+      "x-internal": true,
+    });
+    expect(spec.paths["/api/users/{id}"]?.delete).toMatchObject({
+      operationId: "deleteApiUsersId",
+      tags: ["admin"],
+      deprecated: true,
+    });
+  });
+
+  it("should document HEAD, OPTIONS and 405 responses", () => {
+    const t = init();
+    const spec = generateOpenAPISpec({
+      api: router({
+        "/users/{id}": {
+          get: t.procedure
+            .input({ params: z.object({ id: z.coerce.number() }) })
+            .output(z.object({ id: z.number() }))
+            .handler(({ input }) => ({ id: input.id })),
+          delete: t.procedure.status(204).handler(() => {}),
+        },
+        "/ping": {
+          get: t.procedure.handler(() => undefined),
+          options: t.procedure.handler(() => new Response(null)),
+        },
+      }),
+    });
+    const user = spec.paths["/api/users/{id}"];
+
+    expect(user?.head).toEqual({
+      operationId: "headApiUsersId",
+      parameters: user?.get?.parameters,
+      responses: { "200": { description: "Successful response" } },
+    });
+    expect(user?.options).toEqual({
+      operationId: "optionsApiUsersId",
+      parameters: [
+        { name: "id", in: "path", required: true, schema: { type: "string" } },
+      ],
+      responses: {
+        "204": {
+          description: "Allowed methods",
+          headers: {
+            Allow: {
+              schema: { type: "string", example: "GET, HEAD, DELETE, OPTIONS" },
+            },
+          },
+        },
+      },
+    });
+    expect(user?.delete?.responses["405"]).toEqual({
+      description: "Method not allowed",
+      headers: {
+        Allow: {
+          schema: { type: "string", example: "GET, HEAD, DELETE, OPTIONS" },
+        },
+      },
+      content: {
+        "application/json": {
+          schema: { $ref: "#/components/schemas/GetApiUsersId405Error" },
+        },
+      },
+    });
+    expect(spec.paths["/api/ping"]?.options?.operationId).toBe(
+      "optionsApiPing",
+    );
+  });
+
+  it("should document 415 for non-JSON bodies and 406 for .produces()", () => {
+    const t = init();
+    const spec = generateOpenAPISpec({
+      api: router({
+        "/avatar": t.procedure
+          .input({
+            contentType: "multipart/form-data",
+            body: z.object({ image: z.instanceof(Blob) }),
+          })
+          .post(() => new Response()),
+        "/users": t.procedure
+          .input({ body: z.object({ name: z.string() }) })
+          .output(z.array(z.object({ id: z.number() })))
+          .produces("application/json", "text/csv")
+          .post(() => [{ id: 1 }]),
+      }),
+    });
+    const avatar = spec.paths["/api/avatar"]?.post?.responses ?? {};
+    const users = spec.paths["/api/users"]?.post?.responses ?? {};
+
+    expect(avatar["415"]?.content?.["application/json"]?.schema).toEqual({
+      $ref: "#/components/schemas/PostApiAvatar415Error",
+    });
+    expect(
+      spec.components?.schemas["PostApiUsers406Error"]?.properties,
+    ).toMatchObject({
+      error: {
+        properties: {
+          code: { enum: ["NOT_ACCEPTABLE"] },
+          details: { properties: { available: { type: "array" } } },
+        },
+      },
+    });
+    expect(avatar).not.toHaveProperty("406");
+    expect(users).not.toHaveProperty("415");
+  });
+
+  it("should reject duplicate operationIds", () => {
+    const t = init();
+    const getUser = t.procedure.meta({ operationId: "getUser" });
+    expect(() =>
+      generateOpenAPISpec({
+        api: router({
+          "/users/{id}": getUser.get(() => new Response()),
+          "/admins/{id}": getUser.get(() => new Response()),
+        }),
+      }),
+    ).toThrow(
+      'operationId "getUser" of GET /api/admins/{id} is already used by GET /api/users/{id}',
+    );
+  });
 });
 
 describe("createDocsRouter", () => {
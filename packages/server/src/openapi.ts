@@ -3,7 +3,21 @@ import { createRouter, router } from "./router.js";
 import { publicProcedure } from "./init.js";
 import type { Router } from "./router.js";
 import type { Procedure } from "./types/procedure.js";
-import type { InputConfig } from "./types/index.js";
+import type { BodyContentType, InputConfig } from "./types/index.js";
+import { PROBLEM_CONTENT_TYPE, problemDetailsSchema } from "./problem.js";
+import type { ErrorFormat } from "./problem.js";
+import { notAcceptableErrorSchema } from "./serializers.js";
+import type { Serializer } from "./serializers.js";
+import { formatCacheControl, preconditionFailedErrorSchema } from "./cache.js";
+import {
+  payloadTooLargeErrorSchema,
+  unsupportedMediaTypeErrorSchema,
+} from "./body.js";
+import {
+  allowedMethods,
+  collectMiddlewareErrors,
+  methodNotAllowedErrorSchema,
+} from "./routes.js";
 
 // ============================================================================
 // Types
@@ -28,6 +42,8 @@ export interface OpenAPIPathItem {
   put?: OpenAPIOperation;
   patch?: OpenAPIOperation;
   delete?: OpenAPIOperation;
+  head?: OpenAPIOperation;
+  options?: OpenAPIOperation;
   parameters?: OpenAPIParameter[];
 }
 
@@ -36,9 +52,11 @@ export interface OpenAPIOperation {
   summary?: string;
   description?: string;
   tags?: string[];
+  deprecated?: boolean;
   parameters?: OpenAPIParameter[];
   requestBody?: OpenAPIRequestBody;
   responses: Record<string, OpenAPIResponse>;
+  [extension: `x-${string}`]: unknown;
 }
 
 export interface OpenAPIParameter {
@@ -46,31 +64,45 @@ export interface OpenAPIParameter {
   in: "path" | "query" | "header" | "cookie";
   required: boolean;
   description?: string;
+  style?: "form" | "deepObject";
+  explode?: boolean;
   schema: Record<string, unknown>;
 }
 
 export interface OpenAPIRequestBody {
   required?: boolean;
-  content: {
-    "application/json": {
-      schema: Record<string, unknown> | { $ref: string };
-    };
-  };
+  content: Partial<
+    Record<
+      BodyContentType,
+      {
+        schema: Record<string, unknown> | { $ref: string };
+      }
+    >
+  >;
+}
+
+export interface OpenAPIHeader {
+  required?: boolean;
+  description?: string;
+  schema: Record<string, unknown>;
+}
+
+export interface OpenAPIMediaType {
+  schema: Record<string, unknown> | { $ref: string };
 }
 
 export interface OpenAPIResponse {
   description: string;
-  content?: {
-    "application/json": {
-      schema: Record<string, unknown> | { $ref: string };
-    };
-  };
+  headers?: Record<string, OpenAPIHeader>;
+  content?: Record<string, OpenAPIMediaType>;
 }
 
 export interface GenerateOpenAPISpecOptions {
   title?: string;
   version?: string;
   description?: string;
+  /** Should match the `errorFormat` passed to `createServer` */
+  errorFormat?: ErrorFormat;
 }
 
 export interface CreateDocsRouterOptions extends GenerateOpenAPISpecOptions {
@@ -100,7 +132,8 @@ function normalizePath(prefix: string, path: string): string {
 function convertPathToOpenAPI(path: string): string {
   // Convert Hono-style path params (:param) to OpenAPI style ({param})
   // Also handles already OpenAPI-style paths
-  let converted = path.replace(/:([^/]+)/g, "{$1}");
+  // Regex constraints like :id{[0-9]+} have no OpenAPI equivalent
+  let converted = path.replace(/:([^/{]+)(?:\{[^/]*\})?/g, "{$1}");
   // Remove trailing slash unless it's the root path "/"
   if (converted.endsWith("/") && converted !== "/") {
     converted = converted.slice(0, -1);
@@ -136,14 +169,27 @@ function generateOperationId(method: string, path: string): string {
 // Schema Conversion
 // ============================================================================
 
-function zodToJSONSchema(
+/**
+ * Converts a Zod schema to an OpenAPI 3.0 schema, or to the JSON Schema
+ * `target` passed
+ */
+export function zodToJSONSchema(
   schema: z.ZodTypeAny,
-  options?: { io?: "input" | "output" },
+  options?: { io?: "input" | "output"; target?: "draft-2020-12" },
 ): Record<string, unknown> {
   try {
     return z.toJSONSchema(schema, {
-      target: "openapi-3.0",
+      target: options?.target ?? "openapi-3.0",
       io: options?.io,
+      unrepresentable: "any",
+      override: ({ zodSchema, jsonSchema }) => {
+        // z.instanceof(Blob) / z.instanceof(File) upload parts
+        const bag = zodSchema._zod.bag as { Class?: unknown };
+        if (bag.Class === Blob || bag.Class === File) {
+          jsonSchema.type = "string";
+          jsonSchema.format = "binary";
+        }
+      },
     }) as Record<string, unknown>;
   } catch (error) {
     // If schema conversion fails, return a basic schema
@@ -189,14 +235,29 @@ function convertParamsToOpenAPIParameters(
   return parameters;
 }
 
-function convertQueryToOpenAPIParameters(
-  querySchema: z.ZodTypeAny | undefined,
+// Arrays are sent as repeated keys (tag=a&tag=b) and objects in deep-object
+// notation (filter[status]=open)
+function queryStyle(
+  schema: Record<string, unknown>,
+): Pick<OpenAPIParameter, "style" | "explode"> {
+  if (schema.type === "array") {
+    return { style: "form", explode: true };
+  }
+  if (schema.type === "object") {
+    return { style: "deepObject", explode: true };
+  }
+  return {};
+}
+
+function convertSchemaToOpenAPIParameters(
+  schema: z.ZodTypeAny | undefined,
+  location: Exclude<OpenAPIParameter["in"], "path">,
 ): OpenAPIParameter[] {
-  if (!querySchema) {
+  if (!schema) {
     return [];
   }
 
-  const jsonSchema = zodToJSONSchema(querySchema, { io: "input" });
+  const jsonSchema = zodToJSONSchema(schema, { io: "input" });
   const parameters: OpenAPIParameter[] = [];
 
   // If it's an object schema, extract individual properties
@@ -211,20 +272,21 @@ function convertQueryToOpenAPIParameters(
     >;
     const required = (jsonSchema.required as string[]) || [];
 
-    for (const [name, schema] of Object.entries(properties)) {
+    for (const [name, propertySchema] of Object.entries(properties)) {
       parameters.push({
         name,
-        in: "query",
+        in: location,
         required: required.includes(name),
-        schema: schema,
+        ...(location === "query" ? queryStyle(propertySchema) : {}),
+        schema: propertySchema,
       });
     }
   } else {
-    // If it's not an object, treat the whole query schema as a single parameter
+    // If it's not an object, treat the whole schema as a single parameter
     // This is less common but handle it gracefully
     parameters.push({
-      name: "query",
-      in: "query",
+      name: location,
+      in: location,
       required: false,
       schema: jsonSchema,
     });
@@ -281,6 +343,15 @@ class SchemaRegistry {
     return { $ref: `#/components/schemas/${finalName}` };
   }
 
+  registerComponent(
+    name: string,
+    schema: Record<string, unknown>,
+  ): { $ref: string } {
+    this.schemas.set(name, schema);
+    this.schemaHashes.set(this.hashSchema(schema), name);
+    return { $ref: `#/components/schemas/${name}` };
+  }
+
   getSchemas(): Record<string, Record<string, unknown>> {
     const result: Record<string, Record<string, unknown>> = {};
     for (const [name, schema] of this.schemas.entries()) {
@@ -295,15 +366,15 @@ class SchemaRegistry {
 // ============================================================================
 
 function convertBodyToOpenAPIRequestBody(
-  bodySchema: z.ZodTypeAny | undefined,
+  input: InputConfig,
   operationId: string,
   schemaRegistry: SchemaRegistry,
 ): OpenAPIRequestBody | undefined {
-  if (!bodySchema) {
+  if (!input.body) {
     return undefined;
   }
 
-  const jsonSchema = zodToJSONSchema(bodySchema, { io: "input" });
+  const jsonSchema = zodToJSONSchema(input.body, { io: "input" });
   const schemaRef = schemaRegistry.registerSchema(
     operationId,
     "Body",
@@ -313,7 +384,7 @@ function convertBodyToOpenAPIRequestBody(
   return {
     required: true,
     content: {
-      "application/json": {
+      [input.contentType ?? "application/json"]: {
         schema: schemaRef,
       },
     },
@@ -324,41 +395,78 @@ function convertBodyToOpenAPIRequestBody(
 // Response Conversion
 // ============================================================================
 
+function convertResponseHeadersToOpenAPIHeaders(
+  headersSchema: z.ZodTypeAny,
+): Record<string, OpenAPIHeader> {
+  const jsonSchema = zodToJSONSchema(headersSchema, { io: "input" });
+  const properties = (jsonSchema.properties ?? {}) as Record<
+    string,
+    Record<string, unknown>
+  >;
+  const required = (jsonSchema.required as string[]) || [];
+
+  const headers: Record<string, OpenAPIHeader> = {};
+  for (const [name, schema] of Object.entries(properties)) {
+    headers[name] = { required: required.includes(name), schema };
+  }
+  return headers;
+}
+
 function convertOutputToOpenAPIResponse(
-  outputSchema: z.ZodTypeAny | undefined,
+  config: {
+    output?: z.ZodTypeAny;
+    status?: number;
+    responseHeaders?: z.ZodTypeAny;
+    stream?: boolean;
+    produces?: Serializer[];
+  },
   operationId: string,
   schemaRegistry: SchemaRegistry,
 ): Record<string, OpenAPIResponse> {
-  const responses: Record<string, OpenAPIResponse> = {};
+  const status = config.status ?? 200;
+  const response: OpenAPIResponse = {
+    description: "Successful response",
+  };
 
-  if (outputSchema) {
-    const jsonSchema = zodToJSONSchema(outputSchema, { io: "output" });
+  if (config.responseHeaders) {
+    response.headers = convertResponseHeadersToOpenAPIHeaders(
+      config.responseHeaders,
+    );
+  }
+
+  // 204/205 responses never carry a body
+  if (config.output && status !== 204 && status !== 205) {
+    const jsonSchema = zodToJSONSchema(config.output, { io: "output" });
     const schemaRef = schemaRegistry.registerSchema(
       operationId,
       "Response",
       jsonSchema,
     );
-    responses["200"] = {
-      description: "Successful response",
-      content: {
-        "application/json": {
+    if (config.produces) {
+      response.content = Object.fromEntries(
+        config.produces.map((serializer) => [
+          serializer.mediaType,
+          { schema: serializer.schema ?? schemaRef },
+        ]),
+      );
+    } else {
+      // Stream procedures document the schema of each event
+      response.content = {
+        [config.stream ? "text/event-stream" : "application/json"]: {
           schema: schemaRef,
         },
-      },
-    };
-  } else {
-    responses["200"] = {
-      description: "Successful response",
-    };
+      };
+    }
   }
 
-  return responses;
+  return { [status]: response };
 }
 
 function convertErrorsToOpenAPIResponses(
   errors: Record<number, z.ZodTypeAny> | undefined,
   operationId: string,
   schemaRegistry: SchemaRegistry,
+  problemDetails: { $ref: string } | undefined,
 ): Record<string, OpenAPIResponse> {
   if (!errors) {
     return {};
@@ -376,17 +484,35 @@ function convertErrorsToOpenAPIResponses(
     );
     responses[statusCode] = {
       description: `Error response`,
-      content: {
-        "application/json": {
-          schema: schemaRef,
-        },
-      },
+      content: problemDetails
+        ? {
+            [PROBLEM_CONTENT_TYPE]: {
+              schema: { allOf: [problemDetails, schemaRef] },
+            },
+          }
+        : {
+            "application/json": {
+              schema: schemaRef,
+            },
+          },
     };
   }
 
   return responses;
 }
 
+// Middleware errors are ServerErrors declared as { error: { code, message,
+// details } }; as Problem Details the message becomes `detail` and the other
+// members of `error` extension members
+function toProblemExtensionsSchema(schema: z.ZodTypeAny): z.ZodTypeAny {
+  const error = schema instanceof z.ZodObject ? schema.shape.error : undefined;
+  if (!(error instanceof z.ZodObject)) {
+    return z.object({});
+  }
+  const { message: _message, ...shape } = error.shape;
+  return z.object(shape);
+}
+
 // ============================================================================
 // Operation Conversion
 // ============================================================================
@@ -401,10 +527,14 @@ function convertProcedureToOpenAPIOperation<
     TCustomContext
   >,
   schemaRegistry: SchemaRegistry,
+  problemDetails: { $ref: string } | undefined,
 ): OpenAPIOperation {
   const openAPIPath = convertPathToOpenAPI(procedure.path);
   const pathParams = extractPathParams(openAPIPath);
-  const operationId = generateOperationId(procedure.method, openAPIPath);
+  const { operationId: customOperationId, ...documentation } =
+    procedure.config.meta ?? {};
+  const operationId =
+    customOperationId ?? generateOperationId(procedure.method, openAPIPath);
 
   const parameters: OpenAPIParameter[] = [];
 
@@ -415,33 +545,123 @@ function convertProcedureToOpenAPIOperation<
   );
   parameters.push(...pathParameters);
 
-  // Add query parameters
-  const queryParameters = convertQueryToOpenAPIParameters(
-    procedure.config.input.query,
+  // Add query, header and cookie parameters
+  parameters.push(
+    ...convertSchemaToOpenAPIParameters(procedure.config.input.query, "query"),
+    ...convertSchemaToOpenAPIParameters(
+      procedure.config.input.headers,
+      "header",
+    ),
+    ...convertSchemaToOpenAPIParameters(
+      procedure.config.input.cookies,
+      "cookie",
+    ),
   );
-  parameters.push(...queryParameters);
+  if (procedure.config.idempotency) {
+    parameters.push({
+      name: "Idempotency-Key",
+      in: "header",
+      required: procedure.config.idempotency.required ?? false,
+      description: "Repeated requests with the same key replay the response",
+      schema: { type: "string", minLength: 1, maxLength: 255 },
+    });
+  }
+  const cache = procedure.config.cache;
+  const conditionalMethods = ["PUT", "PATCH", "DELETE"];
+  if (cache && procedure.method === "GET") {
+    parameters.push({
+      name: "If-None-Match",
+      in: "header",
+      required: false,
+      description: "Responds with a 304 when the ETag is listed",
+      schema: { type: "string" },
+    });
+  } else if (cache && conditionalMethods.includes(procedure.method)) {
+    parameters.push({
+      name: "If-Match",
+      in: "header",
+      required: false,
+      description: "Responds with a 412 unless the current ETag is listed",
+      schema: { type: "string" },
+    });
+  }
 
   // Request body
   const requestBody = convertBodyToOpenAPIRequestBody(
-    procedure.config.input.body,
+    procedure.config.input,
     operationId,
     schemaRegistry,
   );
 
   // Responses
   const successResponses = convertOutputToOpenAPIResponse(
-    procedure.config.output,
+    procedure.config,
     operationId,
     schemaRegistry,
   );
+  if (cache) {
+    for (const response of Object.values(successResponses)) {
+      response.headers = {
+        ...response.headers,
+        ETag: { schema: { type: "string" } },
+        ...(cache.cacheControl !== undefined && {
+          "Cache-Control": {
+            schema: {
+              type: "string",
+              example: formatCacheControl(cache.cacheControl),
+            },
+          },
+        }),
+      };
+    }
+    if (procedure.method === "GET") {
+      successResponses[304] = { description: "Not modified" };
+    }
+  }
+  const middlewareErrors = collectMiddlewareErrors([
+    ...procedure.routerMiddleware,
+    ...procedure.middleware,
+  ]);
+  if (cache && conditionalMethods.includes(procedure.method)) {
+    middlewareErrors[412] = preconditionFailedErrorSchema;
+  }
+  if (
+    procedure.config.input.body ||
+    procedure.config.bodyLimit !== undefined
+  ) {
+    middlewareErrors[413] = payloadTooLargeErrorSchema;
+  }
+  // Only non-JSON bodies check the request's Content-Type
+  if (
+    procedure.config.input.body &&
+    (procedure.config.input.contentType ?? "application/json") !==
+      "application/json"
+  ) {
+    middlewareErrors[415] = unsupportedMediaTypeErrorSchema;
+  }
+  if (procedure.config.produces) {
+    middlewareErrors[406] = notAcceptableErrorSchema;
+  }
+  // Sent for the methods the path doesn't serve
+  middlewareErrors[405] = methodNotAllowedErrorSchema;
+  if (problemDetails) {
+    for (const [status, schema] of Object.entries(middlewareErrors)) {
+      middlewareErrors[Number(status)] = toProblemExtensionsSchema(schema);
+    }
+  }
   const errorResponses = convertErrorsToOpenAPIResponses(
-    procedure.config.errors,
+    {
+      ...middlewareErrors,
+      ...procedure.config.errors,
+    },
     operationId,
     schemaRegistry,
+    problemDetails,
   );
 
   const operation: OpenAPIOperation = {
     operationId,
+    ...documentation,
     responses: {
       ...successResponses,
       ...errorResponses,
@@ -473,27 +693,116 @@ function convertProceduresToOpenAPIPaths<
     TCustomContext
   >[],
   schemaRegistry: SchemaRegistry,
+  problemDetails: { $ref: string } | undefined,
 ): Record<string, OpenAPIPathItem> {
   const paths: Record<string, OpenAPIPathItem> = {};
+  const operations = new Map<string, string>();
+  // Component names derive from operationIds, so duplicates would also
+  // overwrite each other's schemas
+  const addOperation = (
+    path: string,
+    method: keyof OpenAPIPathItem & string,
+    operation: OpenAPIOperation,
+  ) => {
+    const route = `${method.toUpperCase()} ${path}`;
+    const duplicate = operations.get(operation.operationId!);
+    if (duplicate) {
+      throw new Error(
+        `operationId "${operation.operationId}" of ${route} is already used by ${duplicate}, operationIds set with .meta() on a reusable procedure apply to every procedure built from it`,
+      );
+    }
+    operations.set(operation.operationId!, route);
+    paths[path] = { ...paths[path], [method]: operation };
+  };
+
+  // WebSocket procedures aren't documented, but their methods are allowed
+  const methodsByPath = new Map<string, string[]>();
+  for (const procedure of procedures) {
+    const openAPIPath = convertPathToOpenAPI(procedure.path);
+    methodsByPath.set(openAPIPath, [
+      ...(methodsByPath.get(openAPIPath) ?? []),
+      procedure.method,
+    ]);
+  }
 
   for (const procedure of procedures) {
+    // WebSocket routes have no OpenAPI representation
+    if (procedure.config.websocket) {
+      continue;
+    }
     const openAPIPath = convertPathToOpenAPI(procedure.path);
+    const allow = allowedMethods(methodsByPath.get(openAPIPath)!).join(", ");
     const operation = convertProcedureToOpenAPIOperation<TCustomContext>(
       procedure,
       schemaRegistry,
+      problemDetails,
+    );
+    const methodNotAllowed = operation.responses["405"];
+    if (methodNotAllowed) {
+      methodNotAllowed.description = "Method not allowed";
+      methodNotAllowed.headers = {
+        ...methodNotAllowed.headers,
+        Allow: { schema: { type: "string", example: allow } },
+      };
+    }
+    addOperation(
+      openAPIPath,
+      procedure.method.toLowerCase() as keyof OpenAPIPathItem & string,
+      operation,
     );
 
-    if (!paths[openAPIPath]) {
-      paths[openAPIPath] = {};
+    // Answered by the GET procedure, without a body
+    if (procedure.method === "GET") {
+      const { operationId, requestBody: _requestBody, ...rest } = operation;
+      const responses: Record<string, OpenAPIResponse> = {};
+      for (const [status, response] of Object.entries(operation.responses)) {
+        if (status !== "405") {
+          responses[status] = {
+            description: response.description,
+            ...(response.headers && { headers: response.headers }),
+          };
+        }
+      }
+      addOperation(openAPIPath, "head", {
+        ...rest,
+        operationId: procedure.config.meta?.operationId
+          ? `${operationId}Head`
+          : generateOperationId("HEAD", openAPIPath),
+        responses,
+      });
     }
+  }
 
-    const method = procedure.method.toLowerCase() as
-      | "get"
-      | "post"
-      | "put"
-      | "patch"
-      | "delete";
-    paths[openAPIPath]![method] = operation;
+  // Paths without an OPTIONS procedure list their methods automatically
+  for (const [openAPIPath, methods] of methodsByPath) {
+    if (!paths[openAPIPath] || methods.includes("OPTIONS")) {
+      continue;
+    }
+    const pathParams = extractPathParams(openAPIPath);
+    addOperation(openAPIPath, "options", {
+      operationId: generateOperationId("OPTIONS", openAPIPath),
+      ...(pathParams.length > 0 && {
+        parameters: pathParams.map((name) => ({
+          name,
+          in: "path" as const,
+          required: true,
+          schema: { type: "string" },
+        })),
+      }),
+      responses: {
+        204: {
+          description: "Allowed methods",
+          headers: {
+            Allow: {
+              schema: {
+                type: "string",
+                example: allowedMethods(methods).join(", "),
+              },
+            },
+          },
+        },
+      },
+    });
   }
 
   return paths;
@@ -535,7 +844,19 @@ export function generateOpenAPISpec<
   }
 
   const schemaRegistry = new SchemaRegistry();
-  const paths = convertProceduresToOpenAPIPaths<TCustomContext>(allProcedures, schemaRegistry);
+  // Registered first so that no generated schema name takes it
+  const problemDetails =
+    options.errorFormat === "problem+json"
+      ? schemaRegistry.registerComponent(
+          "ProblemDetails",
+          zodToJSONSchema(problemDetailsSchema, { io: "output" }),
+        )
+      : undefined;
+  const paths = convertProceduresToOpenAPIPaths<TCustomContext>(
+    allProcedures,
+    schemaRegistry,
+    problemDetails,
+  );
   const schemas = schemaRegistry.getSchemas();
 
   const spec: OpenAPISpec = {
@@ -659,5 +980,8 @@ export function createDocsRouter<
       });
   }
 
-  return router<TCustomContext>(docsRouterConfig);
+  // Swagger UI loads its scripts and styles from a CDN
+  return router<TCustomContext>(docsRouterConfig).securityHeaders({
+    contentSecurityPolicy: false,
+  });
 }
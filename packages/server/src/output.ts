@@ -0,0 +1,106 @@
+import type { z } from "zod";
+import { defOf, isPlainObject } from "./zod-introspection.js";
+
+/**
+ * What happens when a response fails its output schema:
+ * `"strict"` answers with a 500 OUTPUT_VALIDATION_ERROR, `"log"` reports the
+ * failure and sends the body anyway, `"off"` skips validation
+ * Keys the schema doesn't declare are stripped in every mode
+ */
+export type OutputValidation = "strict" | "log" | "off";
+
+/**
+ * Removes object keys the schema doesn't declare without validating anything
+ * else, so values that failed or skipped validation can't leak internal data
+ */
+export function stripUnknownKeys(
+  schema: z.ZodTypeAny,
+  value: unknown,
+): unknown {
+  const def = defOf(schema);
+  switch (def.type) {
+    case "object": {
+      if (!isPlainObject(value)) {
+        return value;
+      }
+      const shape = def.shape as Record<string, z.ZodTypeAny>;
+      const catchall = def.catchall as z.ZodTypeAny | undefined;
+      // looseObject() and catchall() declare every other key as well
+      const keepUnknown =
+        catchall !== undefined && defOf(catchall).type !== "never";
+      const stripped: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(value)) {
+        const itemSchema = shape[key];
+        if (itemSchema) {
+          stripped[key] = stripUnknownKeys(itemSchema, item);
+        } else if (keepUnknown) {
+          stripped[key] = stripUnknownKeys(catchall, item);
+        }
+      }
+      return stripped;
+    }
+    case "array":
+      return Array.isArray(value)
+        ? value.map((item) =>
+            stripUnknownKeys(def.element as z.ZodTypeAny, item),
+          )
+        : value;
+    case "tuple": {
+      if (!Array.isArray(value)) {
+        return value;
+      }
+      const items = def.items as z.ZodTypeAny[];
+      const rest = def.rest as z.ZodTypeAny | null | undefined;
+      return value.map((item, index) => {
+        const itemSchema = items[index] ?? rest;
+        return itemSchema ? stripUnknownKeys(itemSchema, item) : item;
+      });
+    }
+    case "record":
+      return isPlainObject(value)
+        ? Object.fromEntries(
+            Object.entries(value).map(([key, item]) => [
+              key,
+              stripUnknownKeys(def.valueType as z.ZodTypeAny, item),
+            ]),
+          )
+        : value;
+    case "union": {
+      const options = def.options as z.ZodTypeAny[];
+      // The option the value satisfies, else the first of the same kind
+      const option =
+        options.find((candidate) => candidate.safeParse(value).success) ??
+        options.find((candidate) => {
+          const type = defOf(candidate).type;
+          return Array.isArray(value)
+            ? type === "array" || type === "tuple"
+            : isPlainObject(value) && type === "object";
+        });
+      return option ? stripUnknownKeys(option, value) : value;
+    }
+    case "intersection":
+      if (isPlainObject(value)) {
+        return {
+          ...(stripUnknownKeys(def.left as z.ZodTypeAny, value) as object),
+          ...(stripUnknownKeys(def.right as z.ZodTypeAny, value) as object),
+        };
+      }
+      return value;
+    case "optional":
+    case "nullable":
+    case "default":
+    case "prefault":
+    case "nonoptional":
+    case "readonly":
+    case "catch":
+      return value === undefined || value === null
+        ? value
+        : stripUnknownKeys(def.innerType as z.ZodTypeAny, value);
+    case "pipe":
+      return stripUnknownKeys(def.in as z.ZodTypeAny, value);
+    case "lazy":
+      return stripUnknownKeys((def.getter as () => z.ZodTypeAny)(), value);
+    default:
+      return value;
+  }
+}
@@ -0,0 +1,173 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import {
+  createServer,
+  ForbiddenError,
+  generateOpenAPISpec,
+  init,
+  InternalServerError,
+  rateLimit,
+  router,
+} from "./index.js";
+
+describe("problem+json", () => {
+  const t = init();
+  const api = router({
+    "/users/{id}": t.procedure
+      .input({ params: z.object({ id: z.string().min(2) }) })
+      .errors({
+        404: z.object({ reason: z.literal("missing"), id: z.string() }),
+      })
+      .get(({ input, ctx }) => {
+        if (input.id === "missing") {
+          ctx.error({ reason: "missing", id: input.id });
+        }
+        if (input.id === "forbidden") {
+          throw new ForbiddenError("Not your user", { owner: "someone" });
+        }
+        if (input.id === "down") {
+          throw new InternalServerError("Database down");
+        }
+        if (input.id === "crash") {
+          throw new Error("Connection reset");
+        }
+        return Response.json({ id: input.id });
+      }),
+  });
+  const app = createServer(
+    { api },
+    { errorFormat: "problem+json", exposeErrors: false },
+  );
+
+  const problem = async (path: string) => {
+    const res = await app.request(path);
+    expect(res.headers.get("content-type")).toBe("application/problem+json");
+    return { status: res.status, body: await res.json() };
+  };
+
+  it("should render declared errors with their body as extension members", async () => {
+    expect(await problem("/api/users/missing")).toEqual({
+      status: 404,
+      body: {
+        type: "about:blank",
+        title: "Not Found",
+        status: 404,
+        detail: "Error occurred",
+        instance: "/api/users/missing",
+        reason: "missing",
+        id: "missing",
+      },
+    });
+  });
+
+  it("should render validation errors and ServerErrors", async () => {
+    const validation = await problem("/api/users/1");
+    expect(validation.status).toBe(400);
+    expect(validation.body).toMatchObject({
+      title: "Bad Request",
+      status: 400,
+      code: "VALIDATION_ERROR",
+      details: expect.any(Array),
+    });
+
+    expect((await problem("/api/users/forbidden")).body).toEqual({
+      type: "about:blank",
+      title: "Forbidden",
+      status: 403,
+      detail: "Not your user",
+      instance: "/api/users/forbidden",
+      code: "FORBIDDEN",
+      details: { owner: "someone" },
+    });
+  });
+
+  it("should render 500s with an error id", async () => {
+    expect((await problem("/api/users/down")).body).toEqual({
+      type: "about:blank",
+      title: "Internal Server Error",
+      status: 500,
+      detail: "Database down",
+      instance: "/api/users/down",
+      code: "INTERNAL_SERVER_ERROR",
+      errorId: expect.any(String),
+    });
+    expect((await problem("/api/users/crash")).body).toMatchObject({
+      status: 500,
+      detail: "Internal server error",
+      errorId: expect.any(String),
+    });
+  });
+
+  it("should render SSE error events as Problem Details", async () => {
+    const events = createServer(
+      {
+        events: router({
+          "/feed": t.procedure.stream(async function* () {
+            yield 1;
+            throw new ForbiddenError("Feed closed");
+          }),
+        }),
+      },
+      { errorFormat: "problem+json" },
+    );
+    const text = await (await events.request("/events/feed")).text();
+    const data = JSON.parse(text.match(/event: error\ndata: (.*)/)![1]!);
+
+    expect(data).toEqual({
+      type: "about:blank",
+      title: "Forbidden",
+      status: 403,
+      detail: "Feed closed",
+      instance: "/events/feed",
+      code: "FORBIDDEN",
+    });
+  });
+
+  it("should keep the default format unless enabled", async () => {
+    const res = await createServer({ api }).request("/api/users/forbidden");
+
+    expect(res.headers.get("content-type")).toContain("application/json");
+    expect(await res.json()).toEqual({
+      error: {
+        code: "FORBIDDEN",
+        message: "Not your user",
+        details: { owner: "someone" },
+      },
+    });
+  });
+
+  it("should document error responses as Problem Details", () => {
+    const spec = generateOpenAPISpec(
+      {
+        api: router({
+          "/users/{id}": t.procedure
+            .use(rateLimit({ limit: 10, windowMs: 60_000 }))
+            .input({ params: z.object({ id: z.string() }) })
+            .errors({ 404: z.object({ reason: z.literal("missing") }) })
+            .get(() => Response.json({})),
+        }),
+      },
+      { errorFormat: "problem+json" },
+    );
+    const responses = spec.paths["/api/users/{id}"]?.get?.responses;
+    const schemas = spec.components?.schemas ?? {};
+
+    expect(schemas.ProblemDetails).toMatchObject({
+      type: "object",
+      required: ["type", "title", "status"],
+    });
+    const notFound =
+      responses?.["404"]?.content?.["application/problem+json"]?.schema;
+    expect(notFound).toEqual({
+      allOf: [
+        { $ref: "#/components/schemas/ProblemDetails" },
+        { $ref: expect.any(String) },
+      ],
+    });
+    const tooMany = responses?.["429"]?.content?.["application/problem+json"]
+      ?.schema as { allOf: Array<{ $ref: string }> };
+    const extensions = schemas[tooMany.allOf[1]!.$ref.split("/").pop()!];
+    expect(extensions?.properties).toHaveProperty("code");
+    expect(extensions?.properties).not.toHaveProperty("message");
+  });
+});
@@ -0,0 +1,133 @@
+import type { Context } from "hono";
+import { z } from "zod";
+import { getErrorPolicy } from "./error-reporting.js";
+
+/**
+ * `"default"` renders errors as `{ error: { code, message, details } }`,
+ * `"problem+json"` as RFC 9457 Problem Details
+ */
+export type ErrorFormat = "default" | "problem+json";
+
+export const PROBLEM_CONTENT_TYPE = "application/problem+json";
+
+/**
+ * RFC 9457 Problem Details. Members other than the standard ones are
+ * extension members, e.g. `code`, `details` and `errorId`
+ */
+export const problemDetailsSchema = z.looseObject({
+  type: z.string(),
+  title: z.string(),
+  status: z.number().int(),
+  detail: z.string().optional(),
+  instance: z.string().optional(),
+});
+
+export type ProblemDetails = z.infer<typeof problemDetailsSchema>;
+
+const statusTitles: Record<number, string> = {
+  400: "Bad Request",
+  401: "Unauthorized",
+  402: "Payment Required",
+  403: "Forbidden",
+  404: "Not Found",
+  405: "Method Not Allowed",
+  406: "Not Acceptable",
+  408: "Request Timeout",
+  409: "Conflict",
+  410: "Gone",
+  411: "Length Required",
+  412: "Precondition Failed",
+  413: "Content Too Large",
+  415: "Unsupported Media Type",
+  416: "Range Not Satisfiable",
+  422: "Unprocessable Content",
+  423: "Locked",
+  424: "Failed Dependency",
+  426: "Upgrade Required",
+  428: "Precondition Required",
+  429: "Too Many Requests",
+  431: "Request Header Fields Too Large",
+  500: "Internal Server Error",
+  501: "Not Implemented",
+  502: "Bad Gateway",
+  503: "Service Unavailable",
+  504: "Gateway Timeout",
+};
+
+/**
+ * With the `about:blank` type the title is the status' reason phrase
+ * Extension members never replace the standard members
+ */
+export function toProblemDetails(
+  status: number,
+  detail: string | undefined,
+  instance: string,
+  extensions: Record<string, unknown> = {},
+): ProblemDetails {
+  const problem: ProblemDetails = {
+    type: "about:blank",
+    title: statusTitles[status] ?? (status >= 500 ? "Server Error" : "Error"),
+    status,
+    detail,
+    instance,
+  };
+  for (const [name, value] of Object.entries(extensions)) {
+    if (!(name in problem)) {
+      problem[name] = value;
+    }
+  }
+  return problem;
+}
+
+export function sendProblem(
+  c: Context,
+  status: number,
+  detail: string | undefined,
+  extensions?: Record<string, unknown>,
+): Response {
+  return c.body(
+    JSON.stringify(toProblemDetails(status, detail, c.req.path, extensions)),
+    status as any,
+    { "content-type": PROBLEM_CONTENT_TYPE },
+  );
+}
+
+/**
+ * An error in the server's error format, given its `{ code, message, details }`
+ * body. Also used for errors sent within a stream, e.g. SSE error events and
+ * WebSocket error frames
+ * As Problem Details the message becomes `detail` and the other members
+ * extension members
+ */
+export function formatError(
+  c: Context,
+  status: number,
+  error: Record<string, unknown>,
+): Record<string, unknown> {
+  if (getErrorPolicy(c).format !== "problem+json") {
+    return { error };
+  }
+  const { message, ...extensions } = error;
+  return toProblemDetails(
+    status,
+    typeof message === "string" ? message : undefined,
+    c.req.path,
+    extensions,
+  );
+}
+
+/**
+ * Sends an error in the server's error format, see `formatError`
+ */
+export function sendError(
+  c: Context,
+  status: number,
+  error: Record<string, unknown>,
+): Response {
+  if (getErrorPolicy(c).format !== "problem+json") {
+    return c.json({ error }, status as any);
+  }
+  return c.body(JSON.stringify(formatError(c, status, error)), status as any, {
+    "content-type": PROBLEM_CONTENT_TYPE,
+  });
+}
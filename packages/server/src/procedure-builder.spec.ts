@@ -425,4 +425,42 @@ describe("ProcedureBuilder", () => {
       expectTypeOf<NarrowedContext["user"]>().not.toEqualTypeOf<User | null>();
     });
   });
+
+  describe("BaseProcedureBuilder.responseHeaders", () => {
+    it("should type ctx.setHeaders from the declared schema", () => {
+      new BaseProcedureBuilder()
+        .responseHeaders(z.object({ location: z.string() }))
+        .status(201)
+        .post(({ ctx }) => {
+          expectTypeOf(ctx.setHeaders)
+            .parameter(0)
+            .toEqualTypeOf<{ location?: string }>();
+          return new Response();
+        });
+    });
+
+    it("should not expose ctx.setHeaders without a schema", () => {
+      new BaseProcedureBuilder().status(204).delete(({ ctx }) => {
+        expectTypeOf(ctx.setHeaders).toBeNever();
+      });
+    });
+  });
+
+  describe("BaseProcedureBuilder.websocket", () => {
+    it("should type messages and sends from the message schemas", () => {
+      new BaseProcedureBuilder()
+        .input({ query: z.object({ token: z.string() }) })
+        .websocket({
+          inbound: z.object({ text: z.string() }),
+          outbound: z.object({ count: z.number() }),
+          onMessage: ({ input, message, ws }) => {
+            expectTypeOf(input.token).toEqualTypeOf<string>();
+            expectTypeOf(message).toEqualTypeOf<{ text: string }>();
+            expectTypeOf(ws.send)
+              .parameter(0)
+              .toEqualTypeOf<{ count: number }>();
+          },
+        });
+    });
+  });
 });
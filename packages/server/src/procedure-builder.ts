@@ -1,5 +1,7 @@
 import { z } from "zod";
 import type {
+  BaseContext,
+  HandlerOutput,
   InferOutput,
   InputConfig,
   TypedContext,
@@ -7,12 +9,21 @@ import type {
   Procedure,
   ReadyProcedure,
   PendingProcedure,
+  ProcedureMeta,
+  SuccessStatusCode,
+  WebSocketHandlers,
 } from "./types/index.js";
 import type {
   MiddlewareFunction,
   MiddlewareBuilder,
   Overwrite,
 } from "./middleware.js";
+import type { IdempotencyOptions } from "./idempotency.js";
+import { resolveSerializers } from "./serializers.js";
+import type { Serializer } from "./serializers.js";
+import type { CacheOptions } from "./cache.js";
+import { streamEvents } from "./stream.js";
+import { createWebSocketEvents } from "./websocket.js";
 
 function convertPathToHono(path: string): string {
   return path.replace(/\{([^}]+)\}/g, ":$1");
@@ -32,6 +43,12 @@ type MergeInputConfig<
   body: TOverride["body"] extends z.ZodTypeAny
     ? TOverride["body"]
     : TBase["body"];
+  headers: TOverride["headers"] extends z.ZodTypeAny
+    ? TOverride["headers"]
+    : TBase["headers"];
+  cookies: TOverride["cookies"] extends z.ZodTypeAny
+    ? TOverride["cookies"]
+    : TBase["cookies"];
 };
 
 // Helper type to merge error configs - unions schemas when status codes overlap
@@ -64,16 +81,29 @@ export class BaseProcedureBuilder<
     params?: never;
     query?: never;
     body?: never;
+    headers?: never;
+    cookies?: never;
   },
   TBaseOutput extends z.ZodTypeAny | undefined = undefined,
   TBaseErrors extends Record<number, z.ZodTypeAny> | undefined = undefined,
   TCustomContext extends object = Record<string, never>,
   TRouter = unknown,
+  TBaseResponseHeaders extends z.ZodTypeAny | undefined = undefined,
 > {
   private _baseConfig: {
     input: TBaseInput;
     output?: TBaseOutput;
     errors?: TBaseErrors;
+    status?: SuccessStatusCode;
+    responseHeaders?: TBaseResponseHeaders;
+    stream?: boolean;
+    idempotency?: IdempotencyOptions;
+    produces?: Serializer[];
+    cache?: CacheOptions;
+    bodyLimit?: number;
+    meta?: ProcedureMeta;
+    /** Set by `init()`: serializers `.produces()` can name by media type */
+    serializers?: Serializer[];
   };
 
   // Middleware stored with type erasure for runtime, but builder generic tracks narrowed context
@@ -93,6 +123,15 @@ export class BaseProcedureBuilder<
       input?: TBaseInput;
       output?: TBaseOutput;
       errors?: TBaseErrors;
+      status?: SuccessStatusCode;
+      responseHeaders?: TBaseResponseHeaders;
+      stream?: boolean;
+      idempotency?: IdempotencyOptions;
+      produces?: Serializer[];
+      cache?: CacheOptions;
+      bodyLimit?: number;
+      meta?: ProcedureMeta;
+      serializers?: Serializer[];
     },
     middleware?: Array<any>,
     private router?: TRouter & {
@@ -107,9 +146,8 @@ export class BaseProcedureBuilder<
     },
   ) {
     this._baseConfig = {
+      ...baseConfig,
       input: (baseConfig?.input ?? {}) as TBaseInput,
-      output: baseConfig?.output,
-      errors: baseConfig?.errors,
     };
     if (middleware) {
       this._middleware = [...middleware];
@@ -158,7 +196,8 @@ export class BaseProcedureBuilder<
     TBaseOutput,
     TBaseErrors,
     Overwrite<TCustomContext, $ContextOverridesOut>,
-    TRouter
+    TRouter,
+    TBaseResponseHeaders
   > {
     // Extract middleware array from builder or wrap single middleware
     const newMiddleware =
@@ -171,7 +210,8 @@ export class BaseProcedureBuilder<
       TBaseOutput,
       TBaseErrors,
       Overwrite<TCustomContext, $ContextOverridesOut>,
-      TRouter
+      TRouter,
+      TBaseResponseHeaders
     >(
       this._baseConfig,
       [...this._middleware, ...newMiddleware] as any,
@@ -186,22 +226,23 @@ export class BaseProcedureBuilder<
     TBaseOutput,
     TBaseErrors,
     TCustomContext,
-    TRouter
+    TRouter,
+    TBaseResponseHeaders
   > {
     return new BaseProcedureBuilder<
       MergeInputConfig<TBaseInput, TInput>,
       TBaseOutput,
       TBaseErrors,
       TCustomContext,
-      TRouter
+      TRouter,
+      TBaseResponseHeaders
     >(
       {
+        ...this._baseConfig,
         input: { ...this._baseConfig.input, ...input } as MergeInputConfig<
           TBaseInput,
           TInput
         >,
-        output: this._baseConfig.output,
-        errors: this._baseConfig.errors,
       },
       this._middleware,
       this.router,
@@ -215,20 +256,18 @@ export class BaseProcedureBuilder<
     TOutput,
     TBaseErrors,
     TCustomContext,
-    TRouter
+    TRouter,
+    TBaseResponseHeaders
   > {
     return new BaseProcedureBuilder<
       TBaseInput,
       TOutput,
       TBaseErrors,
       TCustomContext,
-      TRouter
+      TRouter,
+      TBaseResponseHeaders
     >(
-      {
-        input: this._baseConfig.input,
-        output,
-        errors: this._baseConfig.errors,
-      },
+      { ...this._baseConfig, output },
       this._middleware,
       this.router,
     );
@@ -241,25 +280,235 @@ export class BaseProcedureBuilder<
     TBaseOutput,
     TErrors,
     TCustomContext,
-    TRouter
+    TRouter,
+    TBaseResponseHeaders
   > {
     return new BaseProcedureBuilder<
       TBaseInput,
       TBaseOutput,
       TErrors,
       TCustomContext,
-      TRouter
+      TRouter,
+      TBaseResponseHeaders
+    >(
+      { ...this._baseConfig, errors },
+      this._middleware,
+      this.router,
+    );
+  }
+
+  /**
+   * Status code sent for successful responses, defaults to 200
+   * 204 and 205 responses are sent without a body
+   */
+  status(
+    status: SuccessStatusCode,
+  ): BaseProcedureBuilder<
+    TBaseInput,
+    TBaseOutput,
+    TBaseErrors,
+    TCustomContext,
+    TRouter,
+    TBaseResponseHeaders
+  > {
+    return new BaseProcedureBuilder<
+      TBaseInput,
+      TBaseOutput,
+      TBaseErrors,
+      TCustomContext,
+      TRouter,
+      TBaseResponseHeaders
+    >({ ...this._baseConfig, status }, this._middleware, this.router);
+  }
+
+  /**
+   * Run the procedure at most once per Idempotency-Key header
+   * Repeated keys replay the stored response, 409 while the first request is
+   * in flight, 422 when reused with a different body
+   */
+  idempotent(
+    options: IdempotencyOptions<BaseContext & TCustomContext> = {},
+  ): BaseProcedureBuilder<
+    TBaseInput,
+    TBaseOutput,
+    TBaseErrors,
+    TCustomContext,
+    TRouter,
+    TBaseResponseHeaders
+  > {
+    return new BaseProcedureBuilder<
+      TBaseInput,
+      TBaseOutput,
+      TBaseErrors,
+      TCustomContext,
+      TRouter,
+      TBaseResponseHeaders
+    >(
+      { ...this._baseConfig, idempotency: options },
+      this._middleware,
+      this.router,
+    );
+  }
+
+  /**
+   * Media types the output can be sent as, chosen by the Accept header
+   * Takes built-in media types (application/json, application/x-ndjson,
+   * text/csv, application/msgpack), ones registered on `init()` or
+   * serializers. The first is used when the client accepts any
+   */
+  produces(
+    ...mediaTypes: [Serializer | string, ...Array<Serializer | string>]
+  ): BaseProcedureBuilder<
+    TBaseInput,
+    TBaseOutput,
+    TBaseErrors,
+    TCustomContext,
+    TRouter,
+    TBaseResponseHeaders
+  > {
+    return new BaseProcedureBuilder<
+      TBaseInput,
+      TBaseOutput,
+      TBaseErrors,
+      TCustomContext,
+      TRouter,
+      TBaseResponseHeaders
     >(
       {
-        input: this._baseConfig.input,
-        output: this._baseConfig.output,
-        errors,
+        ...this._baseConfig,
+        produces: resolveSerializers(
+          mediaTypes,
+          this._baseConfig.serializers,
+        ),
       },
       this._middleware,
       this.router,
     );
   }
 
+  /**
+   * Send ETag and Cache-Control headers, answer GET requests whose
+   * If-None-Match lists the ETag with a 304, and document the 412 of
+   * `ctx.ifMatch()` on other methods
+   */
+  cache(
+    options: CacheOptions = {},
+  ): BaseProcedureBuilder<
+    TBaseInput,
+    TBaseOutput,
+    TBaseErrors,
+    TCustomContext,
+    TRouter,
+    TBaseResponseHeaders
+  > {
+    return new BaseProcedureBuilder<
+      TBaseInput,
+      TBaseOutput,
+      TBaseErrors,
+      TCustomContext,
+      TRouter,
+      TBaseResponseHeaders
+    >({ ...this._baseConfig, cache: options }, this._middleware, this.router);
+  }
+
+  /**
+   * Largest request body accepted, in bytes after decompression
+   * Larger bodies are rejected with a 413 PAYLOAD_TOO_LARGE error
+   */
+  bodyLimit(
+    bytes: number,
+  ): BaseProcedureBuilder<
+    TBaseInput,
+    TBaseOutput,
+    TBaseErrors,
+    TCustomContext,
+    TRouter,
+    TBaseResponseHeaders
+  > {
+    return new BaseProcedureBuilder<
+      TBaseInput,
+      TBaseOutput,
+      TBaseErrors,
+      TCustomContext,
+      TRouter,
+      TBaseResponseHeaders
+    >({ ...this._baseConfig, bodyLimit: bytes }, this._middleware, this.router);
+  }
+
+  /**
+   * Document the operation in the OpenAPI spec, also readable as `ctx.meta`
+   * Merges with the metadata of reusable procedures, appending tags, so an
+   * operationId belongs on the final procedure
+   *
+   * @example
+   * ```typescript
+   * const adminProcedure = t.procedure.meta({ tags: ["admin"] });
+   * adminProcedure
+   *   .meta({ summary: "Delete a user", "x-audit": true })
+   *   .delete(({ ctx }) => ...); // tags: ["admin"]
+   * ```
+   */
+  meta(
+    meta: ProcedureMeta,
+  ): BaseProcedureBuilder<
+    TBaseInput,
+    TBaseOutput,
+    TBaseErrors,
+    TCustomContext,
+    TRouter,
+    TBaseResponseHeaders
+  > {
+    const base = this._baseConfig.meta;
+    const tags = [...(base?.tags ?? []), ...(meta.tags ?? [])];
+    return new BaseProcedureBuilder<
+      TBaseInput,
+      TBaseOutput,
+      TBaseErrors,
+      TCustomContext,
+      TRouter,
+      TBaseResponseHeaders
+    >(
+      {
+        ...this._baseConfig,
+        meta: {
+          ...base,
+          ...meta,
+          ...(tags.length > 0 ? { tags: [...new Set(tags)] } : {}),
+        },
+      },
+      this._middleware,
+      this.router,
+    );
+  }
+
+  /**
+   * Declare response headers set through `ctx.setHeaders()`
+   * Headers are validated against the schema before the response is sent
+   */
+  responseHeaders<TResponseHeaders extends z.ZodTypeAny>(
+    responseHeaders: TResponseHeaders,
+  ): BaseProcedureBuilder<
+    TBaseInput,
+    TBaseOutput,
+    TBaseErrors,
+    TCustomContext,
+    TRouter,
+    TResponseHeaders
+  > {
+    return new BaseProcedureBuilder<
+      TBaseInput,
+      TBaseOutput,
+      TBaseErrors,
+      TCustomContext,
+      TRouter,
+      TResponseHeaders
+    >(
+      { ...this._baseConfig, responseHeaders },
+      this._middleware,
+      this.router,
+    );
+  }
+
   on<
     TRouterProvided extends {
       register: (
@@ -278,14 +527,16 @@ export class BaseProcedureBuilder<
     TBaseOutput,
     TBaseErrors,
     TCustomContext,
-    TRouterProvided
+    TRouterProvided,
+    TBaseResponseHeaders
   > {
     return new BaseProcedureBuilder<
       TBaseInput,
       TBaseOutput,
       TBaseErrors,
       TCustomContext,
-      TRouterProvided
+      TRouterProvided,
+      TBaseResponseHeaders
     >(this._baseConfig, this._middleware, router);
   }
 
@@ -295,10 +546,15 @@ export class BaseProcedureBuilder<
   get(
     handler: (opts: {
       input: InferInput<TBaseInput>;
-      ctx: TypedContext<TBaseInput, TBaseErrors, TCustomContext>;
+      ctx: TypedContext<
+        TBaseInput,
+        TBaseErrors,
+        TCustomContext,
+        TBaseResponseHeaders
+      >;
     }) =>
-      | Promise<InferOutput<NonNullable<TBaseOutput>> | Response>
-      | InferOutput<NonNullable<TBaseOutput>>
+      | Promise<HandlerOutput<TBaseOutput> | Response>
+      | HandlerOutput<TBaseOutput>
       | Response,
   ): ReadyProcedure<TBaseInput, TBaseOutput, TBaseErrors, TCustomContext> {
     return {
@@ -312,10 +568,15 @@ export class BaseProcedureBuilder<
   post(
     handler: (opts: {
       input: InferInput<TBaseInput>;
-      ctx: TypedContext<TBaseInput, TBaseErrors, TCustomContext>;
+      ctx: TypedContext<
+        TBaseInput,
+        TBaseErrors,
+        TCustomContext,
+        TBaseResponseHeaders
+      >;
     }) =>
-      | Promise<InferOutput<NonNullable<TBaseOutput>> | Response>
-      | InferOutput<NonNullable<TBaseOutput>>
+      | Promise<HandlerOutput<TBaseOutput> | Response>
+      | HandlerOutput<TBaseOutput>
       | Response,
   ): ReadyProcedure<TBaseInput, TBaseOutput, TBaseErrors, TCustomContext> {
     return {
@@ -329,10 +590,15 @@ export class BaseProcedureBuilder<
   put(
     handler: (opts: {
       input: InferInput<TBaseInput>;
-      ctx: TypedContext<TBaseInput, TBaseErrors, TCustomContext>;
+      ctx: TypedContext<
+        TBaseInput,
+        TBaseErrors,
+        TCustomContext,
+        TBaseResponseHeaders
+      >;
     }) =>
-      | Promise<InferOutput<NonNullable<TBaseOutput>> | Response>
-      | InferOutput<NonNullable<TBaseOutput>>
+      | Promise<HandlerOutput<TBaseOutput> | Response>
+      | HandlerOutput<TBaseOutput>
       | Response,
   ): ReadyProcedure<TBaseInput, TBaseOutput, TBaseErrors, TCustomContext> {
     return {
@@ -346,10 +612,15 @@ export class BaseProcedureBuilder<
   patch(
     handler: (opts: {
       input: InferInput<TBaseInput>;
-      ctx: TypedContext<TBaseInput, TBaseErrors, TCustomContext>;
+      ctx: TypedContext<
+        TBaseInput,
+        TBaseErrors,
+        TCustomContext,
+        TBaseResponseHeaders
+      >;
     }) =>
-      | Promise<InferOutput<NonNullable<TBaseOutput>> | Response>
-      | InferOutput<NonNullable<TBaseOutput>>
+      | Promise<HandlerOutput<TBaseOutput> | Response>
+      | HandlerOutput<TBaseOutput>
       | Response,
   ): ReadyProcedure<TBaseInput, TBaseOutput, TBaseErrors, TCustomContext> {
     return {
@@ -363,10 +634,15 @@ export class BaseProcedureBuilder<
   delete(
     handler: (opts: {
       input: InferInput<TBaseInput>;
-      ctx: TypedContext<TBaseInput, TBaseErrors, TCustomContext>;
+      ctx: TypedContext<
+        TBaseInput,
+        TBaseErrors,
+        TCustomContext,
+        TBaseResponseHeaders
+      >;
     }) =>
-      | Promise<InferOutput<NonNullable<TBaseOutput>> | Response>
-      | InferOutput<NonNullable<TBaseOutput>>
+      | Promise<HandlerOutput<TBaseOutput> | Response>
+      | HandlerOutput<TBaseOutput>
       | Response,
   ): ReadyProcedure<TBaseInput, TBaseOutput, TBaseErrors, TCustomContext> {
     return {
@@ -377,16 +653,104 @@ export class BaseProcedureBuilder<
     };
   }
 
+  /**
+   * Server-Sent Events handler (GET) that returns ReadyProcedure
+   * Each yielded event is validated against the output schema before it is written
+   * `signal` aborts when the client disconnects
+   *
+   * @example
+   * ```typescript
+   * const ticks = publicProcedure
+   *   .output(z.object({ n: z.number() }))
+   *   .stream(async function* ({ signal }) {
+   *     for (let n = 0; !signal.aborted; n++) {
+   *       yield { n };
+   *       await sleep(1000);
+   *     }
+   *   });
+   * ```
+   */
+  stream(
+    handler: (opts: {
+      input: InferInput<TBaseInput>;
+      ctx: TypedContext<
+        TBaseInput,
+        TBaseErrors,
+        TCustomContext,
+        TBaseResponseHeaders
+      >;
+      signal: AbortSignal;
+    }) => AsyncIterable<
+      TBaseOutput extends z.ZodTypeAny ? InferOutput<TBaseOutput> : unknown
+    >,
+  ): ReadyProcedure<TBaseInput, TBaseOutput, TBaseErrors, TCustomContext> {
+    const config = { ...this._baseConfig, stream: true };
+    return {
+      method: "GET",
+      config,
+      handler: (opts) =>
+        streamEvents(opts.ctx.hono, config.output, (signal) =>
+          handler({ ...opts, signal }),
+        ),
+      middleware: this._middleware as any,
+    };
+  }
+
+  /**
+   * WebSocket handler (GET upgrade) that returns ReadyProcedure
+   * Input and middleware run once on the upgrade request; inbound messages are
+   * validated before `onMessage` and `ws.send` validates outbound messages
+   *
+   * @example
+   * ```typescript
+   * const chat = authedProcedure
+   *   .input({ params: z.object({ room: z.string() }) })
+   *   .websocket({
+   *     inbound: z.object({ text: z.string() }),
+   *     outbound: z.object({ from: z.string(), text: z.string() }),
+   *     onMessage: ({ ctx, message, ws }) => {
+   *       ws.send({ from: ctx.user.name, text: message.text });
+   *     },
+   *   });
+   * ```
+   */
+  websocket<TInbound extends z.ZodTypeAny, TOutbound extends z.ZodTypeAny>(
+    handlers: WebSocketHandlers<
+      TBaseInput,
+      TBaseErrors,
+      TCustomContext,
+      TInbound,
+      TOutbound
+    >,
+  ): ReadyProcedure<TBaseInput, TBaseOutput, TBaseErrors, TCustomContext> {
+    return {
+      method: "GET",
+      config: {
+        ...this._baseConfig,
+        websocket: { inbound: handlers.inbound, outbound: handlers.outbound },
+      },
+      // The server hands these events to the runtime's upgradeWebSocket
+      handler: ((opts: { input: unknown; ctx: unknown }) =>
+        createWebSocketEvents(handlers as any, opts)) as any,
+      middleware: this._middleware as any,
+    };
+  }
+
   /**
    * Generic handler method that returns PendingProcedure (method determined later)
    */
   handler(
     handlerFn: (opts: {
       input: InferInput<TBaseInput>;
-      ctx: TypedContext<TBaseInput, TBaseErrors, TCustomContext>;
+      ctx: TypedContext<
+        TBaseInput,
+        TBaseErrors,
+        TCustomContext,
+        TBaseResponseHeaders
+      >;
     }) =>
-      | Promise<InferOutput<NonNullable<TBaseOutput>> | Response>
-      | InferOutput<NonNullable<TBaseOutput>>
+      | Promise<HandlerOutput<TBaseOutput> | Response>
+      | HandlerOutput<TBaseOutput>
       | Response,
   ): PendingProcedure<TBaseInput, TBaseOutput, TBaseErrors, TCustomContext> {
     return {
@@ -416,8 +780,8 @@ export class ProcedureBuilder<
   private _handler?: (
     ctx: TypedContext<TInput, TErrors, TCustomContext>,
   ) =>
-    | Promise<InferOutput<NonNullable<TOutput>> | Response>
-    | InferOutput<NonNullable<TOutput>>
+    | Promise<HandlerOutput<TOutput> | Response>
+    | HandlerOutput<TOutput>
     | Response;
   private _middleware: Array<any> = [];
   private _registered = false;
@@ -457,8 +821,8 @@ export class ProcedureBuilder<
     fn: (
       ctx: TypedContext<TInput, TErrors, TCustomContext>,
     ) =>
-      | Promise<InferOutput<NonNullable<TOutput>> | Response>
-      | InferOutput<NonNullable<TOutput>>
+      | Promise<HandlerOutput<TOutput> | Response>
+      | HandlerOutput<TOutput>
       | Response,
   ): TRouter {
     this._handler = fn;
@@ -486,6 +850,7 @@ export class ProcedureBuilder<
       config: this._config,
       handler: this._handler,
       middleware: this._middleware as any,
+      routerMiddleware: [],
     };
   }
 }
@@ -0,0 +1,115 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import { createServer, generateOpenAPISpec, init, router } from "./index.js";
+import { coerceQuery, parseQuery } from "./query.js";
+
+describe("parseQuery", () => {
+  it("should gather repeated keys and bracket notation", () => {
+    expect(
+      parseQuery({
+        page: ["2"],
+        tag: ["a", "b"],
+        "id[]": ["1"],
+        "filter[status]": ["open"],
+        "filter[owner][name]": ["ada"],
+        "__proto__[polluted]": ["yes"],
+      }),
+    ).toEqual({
+      page: "2",
+      tag: ["a", "b"],
+      id: ["1"],
+      filter: { status: "open", owner: { name: "ada" } },
+    });
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+});
+
+describe("coerceQuery", () => {
+  const schema = z.object({
+    page: z.number().int().optional(),
+    draft: z.boolean(),
+    tags: z.array(z.string()),
+    ids: z.array(z.number()),
+    sort: z.enum(["asc", "desc"]),
+    limit: z.union([z.literal(10), z.literal(50)]),
+    since: z.date(),
+    filter: z.object({ archived: z.boolean().default(false) }),
+  });
+
+  it("should convert values to the types of the schema", () => {
+    const query = coerceQuery(schema, {
+      page: "2",
+      draft: "false",
+      tags: "a",
+      ids: ["1", "2"],
+      sort: ["desc", "asc"],
+      limit: "50",
+      since: "2024-01-01T00:00:00.000Z",
+      filter: { archived: "1" },
+    });
+
+    expect(schema.parse(query)).toEqual({
+      page: 2,
+      draft: false,
+      tags: ["a"],
+      ids: [1, 2],
+      sort: "desc",
+      limit: 50,
+      since: new Date("2024-01-01T00:00:00.000Z"),
+      filter: { archived: true },
+    });
+  });
+
+  it("should leave values it can't convert for the schema to reject", () => {
+    expect(
+      coerceQuery(z.object({ page: z.number(), draft: z.boolean() }), {
+        page: "two",
+        draft: "",
+      }),
+    ).toEqual({ page: "two", draft: "" });
+  });
+});
+
+describe("query parameters", () => {
+  const t = init();
+  const api = router({
+    "/todos": t.procedure
+      .input({
+        query: z.object({
+          page: z.number().int().min(1).default(1),
+          tag: z.array(z.string()).optional(),
+          filter: z
+            .object({ done: z.boolean(), assignee: z.string().optional() })
+            .optional(),
+        }),
+      })
+      .get(({ input }) => Response.json(input)),
+  });
+
+  it("should coerce repeated and deep-object parameters", async () => {
+    const app = createServer({ api });
+    const res = await app.request(
+      "/api/todos?page=3&tag=a&tag=b&filter[done]=true&filter[assignee]=ada",
+    );
+
+    expect(await res.json()).toEqual({
+      page: 3,
+      tag: ["a", "b"],
+      filter: { done: true, assignee: "ada" },
+    });
+    expect((await app.request("/api/todos?page=zero")).status).toBe(400);
+  });
+
+  it("should document the serialization style of arrays and objects", () => {
+    const spec = generateOpenAPISpec({ api });
+    const parameters = spec.paths["/api/todos"]?.get?.parameters ?? [];
+
+    expect(
+      parameters.map(({ name, style, explode }) => ({ name, style, explode })),
+    ).toEqual([
+      { name: "page", style: undefined, explode: undefined },
+      { name: "tag", style: "form", explode: true },
+      { name: "filter", style: "deepObject", explode: true },
+    ]);
+  });
+});
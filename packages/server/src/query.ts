@@ -0,0 +1,156 @@
+import type { z } from "zod";
+import { defOf, isPlainObject } from "./zod-introspection.js";
+import type { SchemaDef } from "./zod-introspection.js";
+
+// Bracket segments that would write to the prototype chain
+const unsafeKeys = new Set(["__proto__", "constructor", "prototype"]);
+
+/**
+ * Builds the query object from every value of every key
+ * Repeated keys become arrays, `tag[]=a` always does, and deep-object keys
+ * like `filter[status]=open` become nested objects
+ */
+export function parseQuery(
+  queries: Record<string, string[]>,
+): Record<string, unknown> {
+  const query: Record<string, unknown> = {};
+  for (const [key, values] of Object.entries(queries)) {
+    const match = /^([^[\]]+)((?:\[[^[\]]*\])+)$/.exec(key);
+    const path = match
+      ? [match[1]!, ...match[2]!.slice(1, -1).split("][")]
+      : [key];
+    if (path.some((segment) => unsafeKeys.has(segment))) {
+      continue;
+    }
+
+    // tag[]=a&tag[]=b
+    const isList = path.length > 1 && path[path.length - 1] === "";
+    if (isList) {
+      path.pop();
+    }
+    const name = path.pop()!;
+    let target = query;
+    for (const segment of path) {
+      if (!isPlainObject(target[segment])) {
+        target[segment] = {};
+      }
+      target = target[segment] as Record<string, unknown>;
+    }
+    if (isList) {
+      const existing = target[name];
+      target[name] = [
+        ...(Array.isArray(existing) ? existing : []),
+        ...values,
+      ];
+    } else {
+      target[name] = values.length === 1 ? values[0] : values;
+    }
+  }
+  return query;
+}
+
+function coerceScalar(def: SchemaDef, value: string): unknown {
+  switch (def.type) {
+    case "number":
+      return value.trim() !== "" && !Number.isNaN(Number(value))
+        ? Number(value)
+        : value;
+    case "boolean":
+      return value === "true" || value === "1"
+        ? true
+        : value === "false" || value === "0"
+          ? false
+          : value;
+    case "bigint":
+      try {
+        return BigInt(value);
+      } catch {
+        return value;
+      }
+    case "date": {
+      const date = new Date(value);
+      return Number.isNaN(date.getTime()) ? value : date;
+    }
+    case "literal":
+    case "enum": {
+      const accepted =
+        def.type === "literal"
+          ? (def.values as unknown[])
+          : Object.values(def.entries as Record<string, unknown>);
+      return accepted.find((candidate) => String(candidate) === value) ?? value;
+    }
+    default:
+      return value;
+  }
+}
+
+/**
+ * Converts query strings to the numbers, booleans, bigints, dates and arrays
+ * the query schema expects, leaving anything it can't convert for the schema
+ * to reject
+ * A single value is wrapped for array schemas, and only the first of repeated
+ * values is kept for other schemas
+ */
+export function coerceQuery(schema: z.ZodTypeAny, value: unknown): unknown {
+  if (value === undefined) {
+    return value;
+  }
+  const def = defOf(schema);
+  switch (def.type) {
+    case "object": {
+      if (!isPlainObject(value)) {
+        return value;
+      }
+      const shape = def.shape as Record<string, z.ZodTypeAny>;
+      const catchall = def.catchall as z.ZodTypeAny | undefined;
+      const coerced: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(value)) {
+        const itemSchema = shape[key] ?? catchall;
+        coerced[key] = itemSchema ? coerceQuery(itemSchema, item) : item;
+      }
+      return coerced;
+    }
+    case "record":
+      return isPlainObject(value)
+        ? Object.fromEntries(
+            Object.entries(value).map(([key, item]) => [
+              key,
+              coerceQuery(def.valueType as z.ZodTypeAny, item),
+            ]),
+          )
+        : value;
+    case "array":
+      return (Array.isArray(value) ? value : [value]).map((item) =>
+        coerceQuery(def.element as z.ZodTypeAny, item),
+      );
+    case "optional":
+    case "nullable":
+    case "default":
+    case "prefault":
+    case "nonoptional":
+    case "readonly":
+    case "catch":
+      return coerceQuery(def.innerType as z.ZodTypeAny, value);
+    case "pipe":
+      return coerceQuery(def.in as z.ZodTypeAny, value);
+    case "lazy":
+      return coerceQuery((def.getter as () => z.ZodTypeAny)(), value);
+    case "union": {
+      // The first option the coerced value satisfies
+      for (const option of def.options as z.ZodTypeAny[]) {
+        const coerced = coerceQuery(option, value);
+        if (option.safeParse(coerced).success) {
+          return coerced;
+        }
+      }
+      return value;
+    }
+    case "unknown":
+    case "any":
+      return value;
+    default: {
+      const scalar = Array.isArray(value) ? value[0] : value;
+      return typeof scalar === "string" ? coerceScalar(def, scalar) : scalar;
+    }
+  }
+}
@@ -0,0 +1,179 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { z } from "zod";
+import { createServer, generateOpenAPISpec, init, router } from "./index.js";
+import { rateLimit, rateLimitErrorSchema } from "./rate-limit.js";
+import type { RateLimitOptions } from "./rate-limit.js";
+
+describe("rateLimit", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(0);
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  interface AppContext {
+    user: { id: string } | null;
+  }
+
+  const createApp = (options: RateLimitOptions) => {
+    const t = init<AppContext>();
+    return createServer<AppContext>(
+      {
+        api: router<AppContext>({
+          "/ping": t.procedure
+            .errors({ 429: rateLimitErrorSchema })
+            .use(rateLimit(options))
+            .output(z.string())
+            .get(() => "pong"),
+        }),
+      },
+      {
+        createContext: (c) => ({
+          user: c.req.header("x-user") ? { id: c.req.header("x-user")! } : null,
+        }),
+      },
+    );
+  };
+
+  // Bindings of @hono/node-server, read by the default getConnInfo
+  const env = (address: string) => ({
+    incoming: { socket: { remoteAddress: address } },
+  });
+
+  const statuses = async (
+    app: ReturnType<typeof createApp>,
+    count: number,
+    headers: Record<string, string> = {},
+    address = "127.0.0.1",
+  ) => {
+    const result: number[] = [];
+    for (let i = 0; i < count; i++) {
+      const res = await app.request("/api/ping", { headers }, env(address));
+      result.push(res.status);
+    }
+    return result;
+  };
+
+  it("should reject requests over the limit with a typed 429", async () => {
+    const app = createApp({ limit: 2, windowMs: 1000 });
+    const ok = await app.request("/api/ping", {}, env("127.0.0.1"));
+    expect(ok.headers.get("ratelimit-limit")).toBe("2");
+    expect(ok.headers.get("ratelimit-remaining")).toBe("1");
+    expect(ok.headers.get("ratelimit-reset")).toBe("1");
+    await app.request("/api/ping", {}, env("127.0.0.1"));
+
+    vi.setSystemTime(400);
+    const res = await app.request("/api/ping", {}, env("127.0.0.1"));
+    expect(res.status).toBe(429);
+    expect(res.headers.get("retry-after")).toBe("1");
+    expect(rateLimitErrorSchema.parse(await res.json())).toEqual({
+      error: {
+        code: "TOO_MANY_REQUESTS",
+        message: "Too many requests",
+        details: { retryAfter: 1 },
+      },
+    });
+
+    vi.setSystemTime(1000);
+    expect(await statuses(app, 1)).toEqual([200]);
+  });
+
+  it("should weight the previous window with sliding-window", async () => {
+    const app = createApp({
+      limit: 4,
+      windowMs: 1000,
+      algorithm: "sliding-window",
+    });
+    expect(await statuses(app, 5)).toEqual([200, 200, 200, 200, 429]);
+    // Halfway through the next window, half of the previous count remains
+    vi.setSystemTime(1500);
+    expect(await statuses(app, 3)).toEqual([200, 200, 429]);
+  });
+
+  it("should refill tokens gradually with token-bucket", async () => {
+    const app = createApp({
+      limit: 2,
+      windowMs: 1000,
+      algorithm: "token-bucket",
+    });
+    expect(await statuses(app, 3)).toEqual([200, 200, 429]);
+    vi.setSystemTime(500);
+    expect(await statuses(app, 2)).toEqual([200, 429]);
+  });
+
+  it("should count users separately and fall back to the IP", async () => {
+    const app = createApp({ limit: 1, windowMs: 1000, key: "user" });
+    expect(await statuses(app, 2, { "x-user": "a" })).toEqual([200, 429]);
+    expect(await statuses(app, 1, { "x-user": "b" })).toEqual([200]);
+    expect(await statuses(app, 2, {}, "10.0.0.1")).toEqual([200, 429]);
+    expect(await statuses(app, 1, {}, "10.0.0.3")).toEqual([200]);
+  });
+
+  it("should ignore forwarding headers unless the proxy is trusted", async () => {
+    const app = createApp({ limit: 1, windowMs: 1000 });
+    expect(await statuses(app, 1, { "x-forwarded-for": "10.0.0.1" })).toEqual(
+      [200],
+    );
+    expect(await statuses(app, 1, { "x-forwarded-for": "10.0.0.2" })).toEqual(
+      [429],
+    );
+
+    const proxied = createApp({ limit: 1, windowMs: 1000, trustProxy: true });
+    // Only the entry appended by the trusted proxy counts
+    expect(
+      await statuses(proxied, 2, { "x-forwarded-for": "1.1.1.1, 10.0.0.1" }),
+    ).toEqual([200, 429]);
+    expect(
+      await statuses(proxied, 1, { "x-forwarded-for": "2.2.2.2, 10.0.0.2" }),
+    ).toEqual([200]);
+    expect(await statuses(proxied, 1, { "x-real-ip": "10.0.0.3" })).toEqual([
+      200,
+    ]);
+  });
+
+  it("should share one limit between requests without a client address", async () => {
+    const app = createApp({ limit: 1, windowMs: 1000 });
+    expect((await app.request("/api/ping")).status).toBe(200);
+    expect((await app.request("/api/ping")).status).toBe(429);
+    expect(await statuses(app, 1)).toEqual([200]);
+
+    const custom = createApp({
+      limit: 1,
+      windowMs: 1000,
+      getConnInfo: () => ({ remote: { address: "10.0.0.1" } }),
+    });
+    expect((await custom.request("/api/ping")).status).toBe(200);
+    expect((await custom.request("/api/ping")).status).toBe(429);
+  });
+
+  it("should apply to every procedure of a router", async () => {
+    const t = init();
+    const app = createServer({
+      api: router({
+        "/a": t.procedure.output(z.string()).get(() => "a"),
+        "/b": t.procedure.output(z.string()).get(() => "b"),
+      }).use(rateLimit({ limit: 1, windowMs: 1000, key: () => "all" })),
+    });
+    expect((await app.request("/api/a")).status).toBe(200);
+    expect((await app.request("/api/b")).status).toBe(429);
+  });
+
+  it("should document the 429 response in the OpenAPI spec", () => {
+    const t = init();
+    const spec = generateOpenAPISpec({
+      api: router({
+        "/a": t.procedure.output(z.string()).get(() => "a"),
+      }).use(rateLimit({ limit: 1, windowMs: 1000 })),
+    });
+    expect(spec.paths["/api/a"]?.get?.responses["429"]).toEqual({
+      description: "Error response",
+      content: {
+        "application/json": {
+          schema: { $ref: "#/components/schemas/GetApiA429Error" },
+        },
+      },
+    });
+  });
+});
@@ -0,0 +1,328 @@
+import type { Context } from "hono";
+import type { GetConnInfo } from "hono/conninfo";
+import { z } from "zod";
+import type { BaseContext } from "./types/index.js";
+import type { Middleware, MiddlewareFunction } from "./middleware.js";
+import { TooManyRequestsError } from "./errors.js";
+
+export type RateLimitAlgorithm =
+  | "fixed-window"
+  | "sliding-window"
+  | "token-bucket";
+
+/**
+ * Storage for rate limit state, shared by all instances of the server
+ * `update` must apply the callback atomically per key, e.g. with a Lua
+ * script or WATCH/MULTI on Redis
+ */
+export interface RateLimitStore {
+  update<T>(
+    key: string,
+    ttlMs: number,
+    update: (current: T | undefined) => T,
+  ): Promise<T> | T;
+}
+
+/**
+ * In-process store, suitable for a single server instance
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private entries = new Map<string, { value: unknown; expiresAt: number }>();
+  private nextSweep = 0;
+
+  update<T>(
+    key: string,
+    ttlMs: number,
+    update: (current: T | undefined) => T,
+  ): T {
+    const now = Date.now();
+    this.sweep(now);
+    const entry = this.entries.get(key);
+    const current =
+      entry && entry.expiresAt > now ? (entry.value as T) : undefined;
+    const value = update(current);
+    this.entries.set(key, { value, expiresAt: now + ttlMs });
+    return value;
+  }
+
+  private sweep(now: number): void {
+    if (now < this.nextSweep) {
+      return;
+    }
+    this.nextSweep = now + 60_000;
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
+
+export interface RateLimitOptions<TContext extends BaseContext = BaseContext> {
+  /** Requests allowed per window, or bucket capacity for token-bucket */
+  limit: number;
+  /** Window length, or time to refill an empty bucket for token-bucket */
+  windowMs: number;
+  /** Defaults to "fixed-window" */
+  algorithm?: RateLimitAlgorithm;
+  /**
+   * What requests are counted by. "ip" uses the address of the connection,
+   * see `getConnInfo` and `trustProxy`. Requests without an address, e.g.
+   * from `app.request()` or a unix socket, share the "ip:unknown" key. "user"
+   * uses `ctx.user.id` and falls back to the IP for anonymous requests.
+   * Defaults to "ip"
+   */
+  key?: "ip" | "user" | ((ctx: TContext) => string | Promise<string>);
+  /**
+   * The runtime's getConnInfo, e.g. from `@hono/node-server/conninfo` or
+   * `hono/bun`. Defaults to reading the socket of `@hono/node-server`
+   */
+  getConnInfo?: GetConnInfo;
+  /**
+   * Number of proxies in front of the server whose X-Forwarded-For entries
+   * are trusted, `true` meaning one. X-Real-IP is used when X-Forwarded-For
+   * is missing. Clients can send these headers, so only enable this behind
+   * proxies that set them. Defaults to false
+   */
+  trustProxy?: boolean | number;
+  /** Defaults to a MemoryRateLimitStore per limiter */
+  store?: RateLimitStore;
+  /** Namespaces keys of this limiter in a shared store. Defaults to "ratelimit" */
+  prefix?: string;
+}
+
+export const rateLimitErrorSchema = z.object({
+  error: z.object({
+    code: z.literal("TOO_MANY_REQUESTS"),
+    message: z.string(),
+    details: z.object({ retryAfter: z.number() }),
+  }),
+});
+
+/**
+ * Usable with both `procedure.use()` and `router.use()`
+ */
+export type RateLimitMiddleware<TContext extends BaseContext = BaseContext> =
+  Middleware<TContext> &
+    MiddlewareFunction<TContext, object, object> & {
+      errors: { 429: typeof rateLimitErrorSchema };
+    };
+
+interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  /** Milliseconds until the limit fully resets */
+  resetMs: number;
+  /** Milliseconds until the next request is allowed, when rejected */
+  retryAfterMs: number;
+}
+
+type RateLimiter = (
+  store: RateLimitStore,
+  key: string,
+  limit: number,
+  windowMs: number,
+  now: number,
+) => Promise<RateLimitResult>;
+
+const fixedWindow: RateLimiter = async (store, key, limit, windowMs, now) => {
+  let allowed = false;
+  const state = await store.update<{ count: number; resetAt: number }>(
+    key,
+    windowMs,
+    (current) => {
+      const window =
+        current && current.resetAt > now
+          ? current
+          : { count: 0, resetAt: now + windowMs };
+      allowed = window.count < limit;
+      return allowed ? { ...window, count: window.count + 1 } : window;
+    },
+  );
+  return {
+    allowed,
+    remaining: limit - state.count,
+    resetMs: state.resetAt - now,
+    retryAfterMs: state.resetAt - now,
+  };
+};
+
+// Weights the previous window's count by how much of it still overlaps
+const slidingWindow: RateLimiter = async (
+  store,
+  key,
+  limit,
+  windowMs,
+  now,
+) => {
+  const windowStart = now - (now % windowMs);
+  const overlap = 1 - (now - windowStart) / windowMs;
+  let allowed = false;
+  let estimate = 0;
+  const state = await store.update<{
+    windowStart: number;
+    current: number;
+    previous: number;
+  }>(key, windowMs * 2, (current) => {
+    const window =
+      current?.windowStart === windowStart
+        ? current
+        : {
+            windowStart,
+            current: 0,
+            previous:
+              current?.windowStart === windowStart - windowMs
+                ? current.current
+                : 0,
+          };
+    estimate = window.previous * overlap + window.current;
+    allowed = estimate + 1 <= limit;
+    return allowed ? { ...window, current: window.current + 1 } : window;
+  });
+  const used = allowed ? estimate + 1 : estimate;
+  // Rejected requests wait until the previous window's weight has decayed
+  // enough, or for the next window when the current one alone is full
+  const retryAfterMs =
+    state.current + 1 > limit || state.previous === 0
+      ? windowStart + windowMs - now
+      : (overlap - (limit - 1 - state.current) / state.previous) * windowMs;
+  return {
+    allowed,
+    remaining: Math.max(0, Math.floor(limit - used)),
+    resetMs: windowStart + windowMs * 2 - now,
+    retryAfterMs,
+  };
+};
+
+const tokenBucket: RateLimiter = async (store, key, limit, windowMs, now) => {
+  const refillPerMs = limit / windowMs;
+  let allowed = false;
+  const state = await store.update<{ tokens: number; updatedAt: number }>(
+    key,
+    windowMs,
+    (current) => {
+      const tokens = current
+        ? Math.min(limit, current.tokens + (now - current.updatedAt) * refillPerMs)
+        : limit;
+      allowed = tokens >= 1;
+      return { tokens: allowed ? tokens - 1 : tokens, updatedAt: now };
+    },
+  );
+  return {
+    allowed,
+    remaining: Math.floor(state.tokens),
+    resetMs: (limit - state.tokens) / refillPerMs,
+    retryAfterMs: allowed ? 0 : (1 - state.tokens) / refillPerMs,
+  };
+};
+
+const limiters: Record<RateLimitAlgorithm, RateLimiter> = {
+  "fixed-window": fixedWindow,
+  "sliding-window": slidingWindow,
+  "token-bucket": tokenBucket,
+};
+
+// Same lookup as getConnInfo from @hono/node-server, without depending on it
+const getNodeConnInfo: GetConnInfo = (c) => {
+  const env = c.env as
+    | {
+        server?: { incoming?: { socket?: { remoteAddress?: string } } };
+        incoming?: { socket?: { remoteAddress?: string } };
+      }
+    | undefined;
+  const address = (env?.server ?? env)?.incoming?.socket?.remoteAddress;
+  return { remote: { address } };
+};
+
+function getClientIp(
+  c: Context,
+  options: Pick<RateLimitOptions, "getConnInfo" | "trustProxy">,
+): string {
+  const hops =
+    options.trustProxy === true ? 1 : Number(options.trustProxy ?? 0);
+  if (hops > 0) {
+    // Each trusted proxy appends the address it received the request from,
+    // so entries before those may be set by the client
+    const forwarded = c.req
+      .header("x-forwarded-for")
+      ?.split(",")
+      .map((entry) => entry.trim())
+      .filter(Boolean);
+    const address = forwarded?.length
+      ? forwarded[Math.max(0, forwarded.length - hops)]
+      : c.req.header("x-real-ip");
+    if (address) {
+      return address;
+    }
+  }
+  const address = (options.getConnInfo ?? getNodeConnInfo)(c).remote.address;
+  return address || "unknown";
+}
+
+async function resolveKey<TContext extends BaseContext>(
+  ctx: TContext,
+  options: RateLimitOptions<TContext>,
+): Promise<string> {
+  if (typeof options.key === "function") {
+    return options.key(ctx);
+  }
+  if (options.key === "user") {
+    const user = (ctx as { user?: { id?: unknown } | null }).user;
+    if (user?.id !== undefined) {
+      return `user:${String(user.id)}`;
+    }
+  }
+  return `ip:${getClientIp(ctx.hono, options)}`;
+}
+
+/**
+ * Middleware limiting how often a client can call the procedures it is
+ * applied to
+ * Sets RateLimit-Limit/Remaining/Reset headers and throws a 429
+ * TooManyRequestsError with a Retry-After header once the limit is reached
+ *
+ * @example
+ * ```typescript
+ * const limited = publicProcedure.use(
+ *   rateLimit({ limit: 100, windowMs: 60_000, key: "user" }),
+ * );
+ * ```
+ */
+export function rateLimit<TContext extends BaseContext = BaseContext>(
+  options: RateLimitOptions<TContext>,
+): RateLimitMiddleware<TContext> {
+  const store = options.store ?? new MemoryRateLimitStore();
+  const limiter = limiters[options.algorithm ?? "fixed-window"];
+  const prefix = options.prefix ?? "ratelimit";
+
+  const middleware: MiddlewareFunction<TContext, object, object> = async ({
+    ctx,
+    next,
+  }) => {
+    const key = await resolveKey(ctx as TContext, options);
+    const result = await limiter(
+      store,
+      `${prefix}:${key}`,
+      options.limit,
+      options.windowMs,
+      Date.now(),
+    );
+
+    const c = ctx.hono;
+    c.header("RateLimit-Limit", String(options.limit));
+    c.header("RateLimit-Remaining", String(result.remaining));
+    c.header("RateLimit-Reset", String(Math.ceil(result.resetMs / 1000)));
+
+    if (!result.allowed) {
+      const retryAfter = Math.max(1, Math.ceil(result.retryAfterMs / 1000));
+      c.header("Retry-After", String(retryAfter));
+      throw new TooManyRequestsError("Too many requests", { retryAfter });
+    }
+    return next();
+  };
+
+  // Documents the 429 response in the OpenAPI spec of every procedure using it
+  return Object.assign(middleware, {
+    errors: { 429: rateLimitErrorSchema },
+  }) as RateLimitMiddleware<TContext>;
+}
@@ -0,0 +1,85 @@
+import type { Context } from "hono";
+
+const requestContextKey = "altstack.requestContext";
+
+/**
+ * Returns the custom context built for the current request, or undefined
+ * before the server has created it
+ */
+export function getRequestContext<TCustomContext extends object>(
+  c: Context,
+): TCustomContext | undefined {
+  return c.get(requestContextKey) as TCustomContext | undefined;
+}
+
+/**
+ * Builds the custom context once per request and stores it on the Hono
+ * context, so every middleware and handler of the request shares it
+ */
+export async function resolveRequestContext<TCustomContext extends object>(
+  c: Context,
+  createContext?: (c: Context) => Promise<TCustomContext> | TCustomContext,
+): Promise<TCustomContext> {
+  const existing = getRequestContext<TCustomContext>(c);
+  if (existing) {
+    return existing;
+  }
+  const customContext = createContext
+    ? await createContext(c)
+    : ({} as TCustomContext);
+  c.set(requestContextKey, customContext);
+  return customContext;
+}
+
+const requestDisposalKey = "altstack.requestDisposal";
+
+interface RequestDisposal {
+  dispose: () => Promise<void>;
+  deferred: boolean;
+  released?: Promise<void>;
+}
+
+/**
+ * Registers how the request's services and context are released once its
+ * response is produced, unless a long-lived response defers it
+ */
+export function setRequestDisposal(
+  c: Context,
+  dispose: () => Promise<void>,
+): void {
+  c.set(requestDisposalKey, { dispose, deferred: false });
+}
+
+/**
+ * Releases the request unless disposal was deferred
+ */
+export async function disposeRequest(c: Context): Promise<void> {
+  const disposal = c.get(requestDisposalKey) as RequestDisposal | undefined;
+  if (disposal && !disposal.deferred) {
+    await releaseRequest(c);
+  }
+}
+
+/**
+ * Releases the request's services and context now, at most once, e.g. when
+ * a WebSocket that deferred them closes
+ */
+export async function releaseRequest(c: Context): Promise<void> {
+  const disposal = c.get(requestDisposalKey) as RequestDisposal | undefined;
+  if (disposal) {
+    await (disposal.released ??= disposal.dispose());
+  }
+}
+
+/**
+ * Keeps the request's services and context alive after its response is
+ * returned, for streams and WebSockets that keep using them. Returns the
+ * function releasing them, which runs at most once
+ */
+export function deferRequestDisposal(c: Context): () => Promise<void> {
+  const disposal = c.get(requestDisposalKey) as RequestDisposal | undefined;
+  if (disposal) {
+    disposal.deferred = true;
+  }
+  return () => releaseRequest(c);
+}
@@ -10,10 +10,12 @@ import type {
   PendingProcedure,
 } from "./types/index.js";
 import { ProcedureBuilder, BaseProcedureBuilder } from "./procedure-builder.js";
-import type { Middleware } from "./middleware.js";
+import type { AnyMiddlewareFunction, Middleware } from "./middleware.js";
+import type { SecurityHeadersOptions } from "./security-headers.js";
 
+// Only braces that open a segment, those after a `:param` are its regex
 function convertPathToHono(path: string): string {
-  return path.replace(/\{([^}]+)\}/g, ":$1");
+  return path.replace(/(?<=\/)\{([^}/]+)\}/g, ":$1");
 }
 
 function normalizePrefix(prefix: string): string {
@@ -35,6 +37,7 @@ export class Router<TCustomContext extends object = Record<string, never>> {
     TCustomContext
   >[] = [];
   private middleware: Middleware<BaseContext, BaseContext>[] = [];
+  private securityHeaderOverrides: SecurityHeadersOptions | undefined;
 
   constructor(
     config?: Record<string, Router<TCustomContext> | Router<TCustomContext>[]>,
@@ -59,6 +62,18 @@ export class Router<TCustomContext extends object = Record<string, never>> {
     return this;
   }
 
+  /**
+   * Overrides the `securityHeaders` of `createServer` for this router's
+   * procedures, including merged routers that don't override them
+   */
+  securityHeaders(overrides: SecurityHeadersOptions): this {
+    this.securityHeaderOverrides = {
+      ...this.securityHeaderOverrides,
+      ...overrides,
+    };
+    return this;
+  }
+
   // Helper method to register a ReadyProcedure with a path
   registerProcedure<TPath extends string, TInput extends InputConfig>(
     path: TPath,
@@ -87,6 +102,7 @@ export class Router<TCustomContext extends object = Record<string, never>> {
         });
       },
       middleware: readyProcedure.middleware,
+      routerMiddleware: [],
     };
     this.procedures.push(
       procedure as unknown as Procedure<
@@ -128,6 +144,7 @@ export class Router<TCustomContext extends object = Record<string, never>> {
         });
       },
       middleware: pendingProcedure.middleware,
+      routerMiddleware: [],
     };
     this.procedures.push(
       procedure as unknown as Procedure<
@@ -152,24 +169,36 @@ export class Router<TCustomContext extends object = Record<string, never>> {
     return this;
   }
 
+  // The child's middleware stays scoped to the child's procedures
   merge(prefix: string, router: Router<TCustomContext>): this {
     const normalizedPrefix = normalizePrefix(prefix);
-    const mergedProcedures = router.procedures.map((proc) => ({
+    const mergedProcedures = router.getProcedures().map((proc) => ({
       ...proc,
       path: `${normalizedPrefix}${proc.path}`,
     }));
     this.procedures.push(...mergedProcedures);
-    this.middleware.push(...router.middleware);
     return this;
   }
 
+  // Router middleware runs before validation and procedure middleware,
+  // outermost router first
   getProcedures(): Procedure<
     InputConfig,
     z.ZodTypeAny | undefined,
     Record<number, z.ZodTypeAny> | undefined,
     TCustomContext
   >[] {
-    return this.procedures;
+    const routerMiddleware = this
+      .middleware as unknown as AnyMiddlewareFunction[];
+    const securityHeaders = this.securityHeaderOverrides;
+    return this.procedures.map((proc) => ({
+      ...proc,
+      routerMiddleware: [...routerMiddleware, ...proc.routerMiddleware],
+      // Overrides of merged routers are more specific
+      securityHeaders: securityHeaders
+        ? { ...securityHeaders, ...proc.securityHeaders }
+        : proc.securityHeaders,
+    }));
   }
 
   getMiddleware(): Middleware<BaseContext, BaseContext>[] {
@@ -177,14 +206,26 @@ export class Router<TCustomContext extends object = Record<string, never>> {
   }
 
   get procedure(): BaseProcedureBuilder<
-    { params?: never; query?: never; body?: never },
+    {
+      params?: never;
+      query?: never;
+      body?: never;
+      headers?: never;
+      cookies?: never;
+    },
     undefined,
     undefined,
     TCustomContext,
     this
   > {
     return new BaseProcedureBuilder<
-      { params?: never; query?: never; body?: never },
+      {
+        params?: never;
+        query?: never;
+        body?: never;
+        headers?: never;
+        cookies?: never;
+      },
       undefined,
       undefined,
       TCustomContext,
@@ -222,7 +263,7 @@ type ValidatePendingProcedureForPath<
     : never;
 
 // Type helper for methods object keys - maps lowercase method names to HTTP methods
-type MethodKey = "get" | "post" | "put" | "patch" | "delete";
+type MethodKey = "get" | "post" | "put" | "patch" | "delete" | "options";
 
 // Type helper for methods object - validates each method's PendingProcedure matches path requirements
 // Use a more flexible type that accepts any PendingProcedure subtype
@@ -279,9 +320,16 @@ export function router<
     if (typeof value !== "object" || value === null || value instanceof Router) {
       return false;
     }
-    // Check if it has method-like keys (get, post, put, patch, delete)
+    // Check if it has method-like keys (get, post, put, patch, delete, options)
     const keys = Object.keys(value);
-    const methodKeys: MethodKey[] = ["get", "post", "put", "patch", "delete"];
+    const methodKeys: MethodKey[] = [
+      "get",
+      "post",
+      "put",
+      "patch",
+      "delete",
+      "options",
+    ];
     return keys.some((k) => methodKeys.includes(k as MethodKey));
   };
 
@@ -319,22 +367,8 @@ export function router<
     }
   }
 
-  // Add use method that returns the router for chaining
-  const routerWithUse = routerInstance as Router<TCustomContext> & {
-    use<TContextIn extends BaseContext, TContextOut extends BaseContext>(
-      middleware: Middleware<TContextIn, TContextOut>,
-    ): Router<TCustomContext>;
-  };
-
-  routerWithUse.use = function <
-    TContextIn extends BaseContext,
-    TContextOut extends BaseContext,
-  >(middleware: Middleware<TContextIn, TContextOut>): Router<TCustomContext> {
-    routerInstance.use(middleware);
-    return routerInstance;
-  };
-
-  return routerWithUse;
+  // Router.use already returns the router for chaining
+  return routerInstance;
 }
 
 export function createRouter<
@@ -350,14 +384,9 @@ export function mergeRouters<
 >(...routers: Router<TCustomContext>[]): Router<TCustomContext> {
   const mergedRouter = new Router<TCustomContext>();
   for (const router of routers) {
-    const routerProcedures = router.getProcedures();
-    const routerMiddleware = router.getMiddleware();
-    for (const procedure of routerProcedures) {
+    for (const procedure of router.getProcedures()) {
       mergedRouter.register(procedure);
     }
-    for (const middleware of routerMiddleware) {
-      mergedRouter.use(middleware);
-    }
   }
   return mergedRouter;
 }
@@ -0,0 +1,184 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { z } from "zod";
+import {
+  createLogger,
+  createServer,
+  init,
+  listRoutes,
+  router,
+} from "./index.js";
+import { findRouteConflicts } from "./routes.js";
+
+describe("listRoutes", () => {
+  it("should list prefixed routes in registration order", () => {
+    const t = init();
+    const users = router({
+      "/users": t.procedure.get(() => new Response("users")),
+      "/users/{id}": {
+        get: t.procedure
+          .input({ params: z.object({ id: z.string() }) })
+          .handler(() => new Response("user")),
+        delete: t.procedure
+          .input({ params: z.object({ id: z.string() }) })
+          .status(204)
+          .handler(() => {}),
+      },
+    });
+
+    expect(listRoutes({ api: users, "/": users })).toEqual([
+      { method: "GET", path: "/api/users" },
+      { method: "GET", path: "/api/users/{id}" },
+      { method: "DELETE", path: "/api/users/{id}" },
+      { method: "GET", path: "/users" },
+      { method: "GET", path: "/users/{id}" },
+      { method: "DELETE", path: "/users/{id}" },
+    ]);
+  });
+});
+
+describe("findRouteConflicts", () => {
+  it("should report duplicate routes", () => {
+    const conflicts = findRouteConflicts([
+      { method: "GET", path: "/users/{id}" },
+      { method: "POST", path: "/users/{id}" },
+      { method: "GET", path: "/users/{id}" },
+    ]);
+
+    expect(conflicts).toEqual([
+      {
+        kind: "duplicate",
+        message: "GET /users/{id} is registered twice, only the first one is used",
+      },
+    ]);
+  });
+
+  it("should report static routes after a parameter route", () => {
+    expect(
+      findRouteConflicts([
+        { method: "GET", path: "/users/{id}" },
+        { method: "GET", path: "/users/me" },
+      ]).map((conflict) => conflict.kind),
+    ).toEqual(["shadowed"]);
+
+    expect(
+      findRouteConflicts([
+        { method: "GET", path: "/users/me" },
+        { method: "GET", path: "/users/{id}" },
+        { method: "PUT", path: "/users/settings" },
+      ]),
+    ).toEqual([]);
+  });
+
+  it("should compare regex-constrained parameters only with the same constraint", () => {
+    expect(
+      findRouteConflicts([
+        { method: "GET", path: "/users/{id:[0-9]+}" },
+        { method: "GET", path: "/users/me" },
+        { method: "GET", path: "/users/{slug:[a-z]+}" },
+        { method: "GET", path: "/users/{name}" },
+      ]),
+    ).toEqual([]);
+
+    expect(
+      findRouteConflicts([
+        { method: "GET", path: "/users/{id:[0-9]+}" },
+        { method: "GET", path: "/users/{userId:[0-9]+}" },
+        { method: "GET", path: "/users/{name}" },
+        { method: "GET", path: "/users/{slug:[a-z]+}" },
+      ]).map((conflict) => conflict.kind),
+    ).toEqual(["param-names", "duplicate", "shadowed"]);
+  });
+
+  it("should report parameters named differently in a shared prefix", () => {
+    const conflicts = findRouteConflicts([
+      { method: "GET", path: "/orgs/{orgId}/members" },
+      { method: "GET", path: "/orgs/{id}/projects/{projectId}" },
+      { method: "POST", path: "/orgs/{id}/projects/{projectId}" },
+    ]);
+
+    expect(conflicts).toEqual([
+      {
+        kind: "param-names",
+        message:
+          "/orgs/{orgId}/members and /orgs/{id}/projects/{projectId} name the same path parameter {orgId} and {id}",
+      },
+    ]);
+  });
+});
+
+describe("createServer routeConflicts", () => {
+  const t = init();
+  const users = router({
+    "/users/{id}": {
+      get: t.procedure
+        .input({ params: z.object({ id: z.string() }) })
+        .handler(({ input }) => Response.json({ id: input.id })),
+    },
+  });
+  const me = router({
+    "/users/me": t.procedure.get(() => Response.json({ id: "me" })),
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should throw in strict mode", () => {
+    expect(() =>
+      createServer({ api: [users, me] }, { routeConflicts: "strict" }),
+    ).toThrow("GET /api/users/me never matches");
+  });
+
+  it("should warn by default", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    createServer({ api: [users, me] });
+
+    expect(warn).toHaveBeenCalledWith(
+      "GET /api/users/me never matches, GET /api/users/{id} is registered before it and matches the same requests",
+    );
+  });
+
+  it("should warn through the logger when one is configured", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const lines: string[] = [];
+    createServer(
+      { api: [users, me] },
+      { logger: createLogger({ write: (line) => lines.push(line) }) },
+    );
+
+    expect(warn).not.toHaveBeenCalled();
+    expect(JSON.parse(lines[0]!)).toMatchObject({
+      level: "warn",
+      msg: "GET /api/users/me never matches, GET /api/users/{id} is registered before it and matches the same requests",
+      conflict: "shadowed",
+    });
+  });
+
+  it("should keep regex constraints when checking conflicts", async () => {
+    const app = createServer(
+      {
+        api: router({
+          "/users/:id{[0-9]+}": t.procedure.get(({ ctx }) =>
+            Response.json({ id: ctx.hono.req.param("id") }),
+          ),
+          "/users/me": t.procedure.get(() => Response.json({ id: "me" })),
+        }),
+      },
+      { routeConflicts: "strict" },
+    );
+
+    expect(await (await app.request("/api/users/42")).json()).toEqual({
+      id: "42",
+    });
+    expect(await (await app.request("/api/users/me")).json()).toEqual({
+      id: "me",
+    });
+  });
+
+  it("should skip the check when off", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    createServer({ api: [users, me] }, { routeConflicts: "off" });
+
+    expect(warn).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,311 @@
+import { z } from "zod";
+import type { Router } from "./router.js";
+import type { InputConfig } from "./types/index.js";
+import type { ProcedureMeta, SuccessStatusCode } from "./types/procedure.js";
+import type { AnyMiddlewareFunction } from "./middleware.js";
+import type { CacheOptions } from "./cache.js";
+
+export interface RouteInfo {
+  method: string;
+  /** Full path with the prefix it's mounted on, e.g. "/api/users/{id}" */
+  path: string;
+}
+
+/**
+ * Settings of a procedure that change how it responds, and its `.meta()`
+ */
+export interface RouteMetadata {
+  /** Set by `.stream()` */
+  stream?: boolean;
+  /** Set by `.websocket()` */
+  websocket?: boolean;
+  /** Set by `.idempotent()` */
+  idempotent?: boolean;
+  /** Set by `.cache()` */
+  cache?: CacheOptions;
+  /** Set by `.bodyLimit()` */
+  bodyLimit?: number;
+  /** Media types added by `.produces()` */
+  produces?: string[];
+  /** Set by `.meta()` */
+  meta?: ProcedureMeta;
+}
+
+export interface RouteDescription extends RouteInfo {
+  input: InputConfig;
+  output?: z.ZodTypeAny;
+  /** Declared errors, including those of middleware like `rateLimit()` */
+  errors: Record<number, z.ZodTypeAny>;
+  status: SuccessStatusCode;
+  /** Router and procedure middleware */
+  middlewareCount: number;
+  metadata: RouteMetadata;
+}
+
+export interface RouteConflict {
+  kind: "duplicate" | "shadowed" | "param-names";
+  message: string;
+}
+
+/**
+ * `"strict"` throws on route conflicts when the server is created, `"warn"`
+ * logs them
+ */
+export type RouteConflictMode = "strict" | "warn" | "off";
+
+function normalizePrefix(prefix: string): string {
+  // Remove trailing slash if present, ensure leading slash
+  const normalized = prefix.startsWith("/") ? prefix : `/${prefix}`;
+  return normalized.endsWith("/") ? normalized.slice(0, -1) : normalized;
+}
+
+export function normalizePath(prefix: string, path: string): string {
+  const normalizedPrefix = normalizePrefix(prefix);
+  // Ensure path starts with / and remove trailing slash (unless it's just "/")
+  const normalizedPath = path.startsWith("/") ? path : `/${path}`;
+  const cleanPath =
+    normalizedPath.endsWith("/") && normalizedPath !== "/"
+      ? normalizedPath.slice(0, -1)
+      : normalizedPath;
+  // Combine prefix and path - cleanPath already starts with /, so this works correctly
+  // Special case: if cleanPath is "/", just return the prefix (no trailing slash)
+  if (cleanPath === "/") {
+    return normalizedPrefix;
+  }
+  return `${normalizedPrefix}${cleanPath}`;
+}
+
+/**
+ * Hono's `:id` parameters as `{id}`. Regex constraints are dropped unless
+ * `keepConstraints` is set, which writes `:id{[0-9]+}` as `{id:[0-9]+}`
+ */
+function toDisplayPath(path: string, keepConstraints = false): string {
+  return (
+    path.replace(/:([^/{]+)(?:\{([^/]*)\})?/g, (_, name, pattern) =>
+      keepConstraints && pattern !== undefined
+        ? `{${name}:${pattern}}`
+        : `{${name}}`,
+    ) || "/"
+  );
+}
+
+function mountedProcedures<TCustomContext extends object>(
+  config: Record<string, Router<TCustomContext> | Router<TCustomContext>[]>,
+) {
+  return Object.entries(config).flatMap(([prefix, routerOrRouters]) =>
+    (Array.isArray(routerOrRouters) ? routerOrRouters : [routerOrRouters])
+      .flatMap((router) => router.getProcedures())
+      .map((procedure) => ({
+        ...procedure,
+        path: normalizePath(prefix, procedure.path),
+      })),
+  );
+}
+
+export const methodNotAllowedErrorSchema = z.object({
+  error: z.object({
+    code: z.literal("METHOD_NOT_ALLOWED"),
+    message: z.string(),
+    details: z.object({ allowed: z.array(z.string()) }),
+  }),
+});
+
+/**
+ * Methods listed in Allow headers, GET procedures also answer HEAD requests
+ */
+export function allowedMethods(methods: string[]): string[] {
+  const allowed = methods.flatMap((method) =>
+    method === "GET" ? ["GET", "HEAD"] : [method],
+  );
+  return [...new Set([...allowed, "OPTIONS"])];
+}
+
+// Middleware like rateLimit() declares the error responses it can produce
+export function collectMiddlewareErrors(
+  middleware: AnyMiddlewareFunction[],
+): Record<number, z.ZodTypeAny> {
+  const errors: Record<number, z.ZodTypeAny> = {};
+  for (const fn of middleware) {
+    Object.assign(
+      errors,
+      (fn as { errors?: Record<number, z.ZodTypeAny> }).errors,
+    );
+  }
+  return errors;
+}
+
+/**
+ * The procedures `createServer` registers for the same config with their
+ * schemas, in the order they are matched
+ */
+export function describeRoutes<TCustomContext extends object>(
+  config: Record<string, Router<TCustomContext> | Router<TCustomContext>[]>,
+): RouteDescription[] {
+  return mountedProcedures(config).map(
+    ({ method, path, config, middleware, routerMiddleware }) => {
+      const allMiddleware = [...routerMiddleware, ...middleware];
+      const metadata: RouteMetadata = {
+        ...(config.stream ? { stream: true } : {}),
+        ...(config.websocket ? { websocket: true } : {}),
+        ...(config.idempotency ? { idempotent: true } : {}),
+        ...(config.cache ? { cache: config.cache } : {}),
+        ...(config.bodyLimit !== undefined
+          ? { bodyLimit: config.bodyLimit }
+          : {}),
+        ...(config.produces
+          ? { produces: config.produces.map((s) => s.mediaType) }
+          : {}),
+        ...(config.meta ? { meta: config.meta } : {}),
+      };
+      return {
+        method,
+        path: toDisplayPath(path),
+        input: config.input,
+        output: config.output,
+        errors: {
+          ...collectMiddlewareErrors(allMiddleware),
+          ...config.errors,
+        },
+        status: config.status ?? 200,
+        middlewareCount: allMiddleware.length,
+        metadata,
+      };
+    },
+  );
+}
+
+/**
+ * The routes `createServer` registers for the same config, in the order
+ * they are matched
+ *
+ * @example
+ * ```typescript
+ * console.table(listRoutes({ api: apiRouter }));
+ * ```
+ */
+export function listRoutes<TCustomContext extends object>(
+  config: Record<string, Router<TCustomContext> | Router<TCustomContext>[]>,
+): RouteInfo[] {
+  return describeRoutes(config).map(({ method, path }) => ({ method, path }));
+}
+
+/**
+ * Like `listRoutes`, with regex constraints kept on their parameters, e.g.
+ * `{id:[0-9]+}`, for `findRouteConflicts`
+ */
+export function listRoutePatterns<TCustomContext extends object>(
+  config: Record<string, Router<TCustomContext> | Router<TCustomContext>[]>,
+): RouteInfo[] {
+  return mountedProcedures(config).map(({ method, path }) => ({
+    method,
+    path: toDisplayPath(path, true),
+  }));
+}
+
+type Segment = { param: string; pattern?: string } | { static: string };
+
+function toSegments(path: string): Segment[] {
+  return path
+    .split("/")
+    .filter(Boolean)
+    .map((segment) => {
+      const match = /^\{([^:}]+)(?::(.+))?\}$/.exec(segment);
+      if (!match) {
+        return { static: segment };
+      }
+      return match[2] === undefined
+        ? { param: match[1]! }
+        : { param: match[1]!, pattern: match[2] };
+    });
+}
+
+/**
+ * How a segment of an earlier route relates to the same segment of a later
+ * one: "wider" when only the earlier one is a parameter. A parameter with a
+ * regex constraint may match none of the requests of the later segment, so
+ * it is only compared with parameters of the same constraint
+ */
+function compareSegments(earlier: Segment, later: Segment) {
+  if ("param" in earlier && "param" in later) {
+    if (earlier.pattern === later.pattern) {
+      return "params";
+    }
+    return earlier.pattern === undefined ? "wider" : "different";
+  }
+  if ("static" in earlier && "static" in later) {
+    return earlier.static === later.static ? "equal" : "different";
+  }
+  if ("param" in earlier) {
+    return earlier.pattern === undefined ? "wider" : "different";
+  }
+  return "narrower";
+}
+
+/**
+ * Finds routes that never match because an earlier route with the same
+ * method matches the same requests, and path parameters named differently
+ * in routes that share a prefix
+ */
+export function findRouteConflicts(routes: RouteInfo[]): RouteConflict[] {
+  const conflicts: RouteConflict[] = [];
+  const reportedParams = new Set<string>();
+
+  routes.forEach((a, index) => {
+    const aSegments = toSegments(a.path);
+    for (const b of routes.slice(index + 1)) {
+      const bSegments = toSegments(b.path);
+      const relations = aSegments
+        .slice(0, bSegments.length)
+        .map((segment, i) => compareSegments(segment, bSegments[i]!));
+      const samePattern = (relation: string) =>
+        relation === "equal" || relation === "params";
+
+      // Parameters in the prefix both routes share
+      const sharedLength = relations.findIndex((r) => !samePattern(r));
+      const renamed = aSegments
+        .slice(0, sharedLength === -1 ? relations.length : sharedLength)
+        .findIndex((segment, i) => {
+          const other = bSegments[i]!;
+          return (
+            "param" in segment &&
+            "param" in other &&
+            segment.param !== other.param
+          );
+        });
+      const pathPair = `${a.path} ${b.path}`;
+      if (renamed !== -1 && !reportedParams.has(pathPair)) {
+        reportedParams.add(pathPair);
+        const [aParam, bParam] = [aSegments[renamed], bSegments[renamed]].map(
+          (segment) => (segment as { param: string }).param,
+        );
+        conflicts.push({
+          kind: "param-names",
+          message: `${a.path} and ${b.path} name the same path parameter {${aParam}} and {${bParam}}`,
+        });
+      }
+
+      if (a.method !== b.method || aSegments.length !== bSegments.length) {
+        continue;
+      }
+      if (relations.every(samePattern)) {
+        conflicts.push({
+          kind: "duplicate",
+          message:
+            a.path === b.path
+              ? `${a.method} ${a.path} is registered twice, only the first one is used`
+              : `${a.method} ${a.path} and ${b.path} match the same requests, only the first one is used`,
+        });
+      } else if (
+        relations.every(
+          (relation) => samePattern(relation) || relation === "wider",
+        )
+      ) {
+        conflicts.push({
+          kind: "shadowed",
+          message: `${b.method} ${b.path} never matches, ${a.method} ${a.path} is registered before it and matches the same requests`,
+        });
+      }
+    }
+  });
+  return conflicts;
+}
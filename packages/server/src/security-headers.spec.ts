@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import { createDocsRouter, createServer, init, router } from "./index.js";
+import { getSecurityHeaders } from "./security-headers.js";
+
+describe("getSecurityHeaders", () => {
+  it("should resolve the defaults", () => {
+    expect(getSecurityHeaders()).toEqual({
+      "strict-transport-security": "max-age=15552000; includeSubDomains",
+      "content-security-policy": "default-src 'none'; frame-ancestors 'none'",
+      "x-content-type-options": "nosniff",
+      "x-frame-options": "DENY",
+      "referrer-policy": "no-referrer",
+    });
+  });
+
+  it("should let later options override earlier ones", () => {
+    expect(
+      getSecurityHeaders(
+        { hsts: { maxAge: 60, preload: true }, frameOptions: "SAMEORIGIN" },
+        {
+          contentSecurityPolicy: { "default-src": ["'self'", "cdn.example"] },
+          referrerPolicy: false,
+        },
+      ),
+    ).toEqual({
+      "strict-transport-security": "max-age=60; includeSubDomains; preload",
+      "content-security-policy": "default-src 'self' cdn.example",
+      "x-content-type-options": "nosniff",
+      "x-frame-options": "SAMEORIGIN",
+    });
+  });
+});
+
+describe("security headers", () => {
+  const t = init();
+  const embeds = router({
+    "/widget": t.procedure.get(() => new Response("widget")),
+  }).securityHeaders({ frameOptions: "SAMEORIGIN" });
+  const api = router({
+    "/status": t.procedure.get(() => new Response("ok")),
+    "/legacy": t.procedure.get(({ ctx }) =>
+      ctx.hono.text("legacy", 200, { "x-frame-options": "ALLOW-FROM x" }),
+    ),
+    "/embeds": embeds,
+  }).securityHeaders({ hsts: false });
+  const app = createServer(
+    { api, docs: createDocsRouter({ api }) },
+    { securityHeaders: { referrerPolicy: "same-origin" } },
+  );
+
+  it("should layer router overrides over the server options", async () => {
+    const status = await app.request("/api/status");
+    expect(status.headers.get("strict-transport-security")).toBeNull();
+    expect(status.headers.get("referrer-policy")).toBe("same-origin");
+    expect(status.headers.get("x-frame-options")).toBe("DENY");
+
+    const widget = await app.request("/api/embeds/widget");
+    expect(widget.headers.get("x-frame-options")).toBe("SAMEORIGIN");
+    expect(widget.headers.get("strict-transport-security")).toBeNull();
+  });
+
+  it("should keep headers set by the handler", async () => {
+    const res = await app.request("/api/legacy");
+    expect(res.headers.get("x-frame-options")).toBe("ALLOW-FROM x");
+  });
+
+  it("should allow the docs page to load Swagger UI", async () => {
+    const res = await app.request("/docs");
+    expect(res.headers.get("content-security-policy")).toBeNull();
+    expect(res.headers.get("x-content-type-options")).toBe("nosniff");
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Each header can be disabled with `false`
+ */
+export interface SecurityHeadersOptions {
+  /**
+   * Strict-Transport-Security, defaults to 180 days including subdomains
+   */
+  hsts?:
+    | false
+    | {
+        /** Seconds */
+        maxAge?: number;
+        includeSubDomains?: boolean;
+        preload?: boolean;
+      };
+  /**
+   * Content-Security-Policy as directives or the raw header value
+   * Defaults to "default-src 'none'; frame-ancestors 'none'", as JSON
+   * responses load nothing
+   */
+  contentSecurityPolicy?: false | string | Record<string, string | string[]>;
+  /** X-Content-Type-Options: nosniff, defaults to true */
+  contentTypeOptions?: boolean;
+  /** X-Frame-Options, defaults to "DENY" */
+  frameOptions?: false | "DENY" | "SAMEORIGIN";
+  /** Referrer-Policy, defaults to "no-referrer" */
+  referrerPolicy?: false | string;
+}
+
+const DEFAULT_HSTS_MAX_AGE = 180 * 24 * 60 * 60;
+
+function formatContentSecurityPolicy(
+  policy: string | Record<string, string | string[]>,
+): string {
+  if (typeof policy === "string") {
+    return policy;
+  }
+  return Object.entries(policy)
+    .map(([directive, sources]) =>
+      [directive, ...(Array.isArray(sources) ? sources : [sources])].join(" "),
+    )
+    .join("; ");
+}
+
+/**
+ * Resolves the header values of the options layered on the defaults, later
+ * options override earlier ones
+ */
+export function getSecurityHeaders(
+  ...layers: Array<SecurityHeadersOptions | undefined>
+): Record<string, string> {
+  const options: SecurityHeadersOptions = Object.assign({}, ...layers);
+  const headers: Record<string, string> = {};
+
+  if (options.hsts !== false) {
+    const {
+      maxAge = DEFAULT_HSTS_MAX_AGE,
+      includeSubDomains = true,
+      preload = false,
+    } = options.hsts ?? {};
+    headers["strict-transport-security"] = [
+      `max-age=${maxAge}`,
+      ...(includeSubDomains ? ["includeSubDomains"] : []),
+      ...(preload ? ["preload"] : []),
+    ].join("; ");
+  }
+  if (options.contentSecurityPolicy !== false) {
+    headers["content-security-policy"] = formatContentSecurityPolicy(
+      options.contentSecurityPolicy ?? {
+        "default-src": "'none'",
+        "frame-ancestors": "'none'",
+      },
+    );
+  }
+  if (options.contentTypeOptions !== false) {
+    headers["x-content-type-options"] = "nosniff";
+  }
+  if (options.frameOptions !== false) {
+    headers["x-frame-options"] = options.frameOptions ?? "DENY";
+  }
+  if (options.referrerPolicy !== false) {
+    headers["referrer-policy"] = options.referrerPolicy ?? "no-referrer";
+  }
+  return headers;
+}
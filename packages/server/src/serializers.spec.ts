@@ -0,0 +1,150 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import { createServer, generateOpenAPISpec, init, router } from "./index.js";
+import {
+  csvSerializer,
+  msgpackSerializer,
+  negotiateSerializer,
+  ndjsonSerializer,
+} from "./serializers.js";
+import type { Serializer } from "./serializers.js";
+
+describe("serializers", () => {
+  it("should write CSV with a header row and escaped fields", () => {
+    expect(
+      csvSerializer.serialize([
+        { id: 1, name: 'Ada "the first"', tags: ["a", "b"] },
+        { id: 2, name: "Grace, Hopper" },
+      ]),
+    ).toBe(
+      'id,name,tags\r\n1,"Ada ""the first""","[""a"",""b""]"\r\n2,"Grace, Hopper",\r\n',
+    );
+  });
+
+  it("should write one JSON document per line as NDJSON", () => {
+    expect(ndjsonSerializer.serialize([{ id: 1 }, { id: 2 }])).toBe(
+      '{"id":1}\n{"id":2}\n',
+    );
+  });
+
+  it("should encode MessagePack", () => {
+    const encode = (value: unknown) =>
+      Array.from(msgpackSerializer.serialize(value) as Uint8Array);
+
+    expect(encode({ a: 1, b: [true, null], c: -1 })).toEqual([
+      0x83, 0xa1, 0x61, 0x01, 0xa1, 0x62, 0x92, 0xc3, 0xc0, 0xa1, 0x63, 0xff,
+    ]);
+    expect(encode(1.5)).toEqual([0xcb, 0x3f, 0xf8, 0, 0, 0, 0, 0, 0]);
+  });
+
+  it("should encode MessagePack integers in their smallest form", () => {
+    const encode = (value: unknown) =>
+      Array.from(msgpackSerializer.serialize(value) as Uint8Array);
+
+    expect(encode(127)).toEqual([0x7f]);
+    expect(encode(128)).toEqual([0xcc, 0x80]);
+    expect(encode(255)).toEqual([0xcc, 0xff]);
+    expect(encode(256)).toEqual([0xcd, 0x01, 0x00]);
+    expect(encode(0xffff)).toEqual([0xcd, 0xff, 0xff]);
+    expect(encode(0x10000)).toEqual([0xce, 0, 0x01, 0, 0]);
+    expect(encode(0xffffffff)).toEqual([0xce, 0xff, 0xff, 0xff, 0xff]);
+    expect(encode(0x100000000)).toEqual([0xcf, 0, 0, 0, 0x01, 0, 0, 0, 0]);
+    expect(encode(-32)).toEqual([0xe0]);
+    expect(encode(-33)).toEqual([0xd0, 0xdf]);
+    expect(encode(-128)).toEqual([0xd0, 0x80]);
+    expect(encode(-129)).toEqual([0xd1, 0xff, 0x7f]);
+    expect(encode(-0x8000)).toEqual([0xd1, 0x80, 0x00]);
+    expect(encode(-0x8001)).toEqual([0xd2, 0xff, 0xff, 0x7f, 0xff]);
+    expect(encode(-0x80000000)).toEqual([0xd2, 0x80, 0, 0, 0]);
+    expect(encode(-0x80000001)).toEqual([
+      0xd3, 0xff, 0xff, 0xff, 0xff, 0x7f, 0xff, 0xff, 0xff,
+    ]);
+    expect(encode(2n ** 64n - 1n)).toEqual([0xcf, ...Array(8).fill(0xff)]);
+    expect(encode(-(2n ** 63n))).toEqual([0xd3, 0x80, ...Array(7).fill(0)]);
+    expect(() => encode(2n ** 64n)).toThrow(RangeError);
+    expect(() => encode(-(2n ** 63n) - 1n)).toThrow(RangeError);
+  });
+
+  it("should negotiate by quality and specificity", () => {
+    const serializers = [
+      { mediaType: "application/json", serialize: JSON.stringify },
+      csvSerializer,
+    ];
+    const pick = (accept?: string) =>
+      negotiateSerializer(serializers, accept).mediaType;
+
+    expect(pick()).toBe("application/json");
+    expect(pick("text/csv")).toBe("text/csv");
+    expect(pick("text/*, application/json;q=0.5")).toBe("text/csv");
+    expect(pick("*/*, application/json;q=0")).toBe("text/csv");
+    expect(() => pick("application/xml")).toThrow("Not acceptable");
+  });
+});
+
+describe("content negotiation", () => {
+  const yamlSerializer: Serializer = {
+    mediaType: "application/yaml",
+    serialize: (output) =>
+      (output as Array<{ id: number }>)
+        .map(({ id }) => `- id: ${id}\n`)
+        .join(""),
+  };
+  const t = init({ serializers: [yamlSerializer] });
+  const api = router({
+    "/users": t.procedure
+      .output(z.array(z.object({ id: z.number(), name: z.string() })))
+      .produces("application/json", "text/csv", "application/yaml")
+      .get(() => {
+        const users = [{ id: 1, name: "Ada", passwordHash: "secret" }];
+        return users;
+      }),
+  });
+  const app = createServer({ api });
+  const get = (accept: string) =>
+    app.request("/api/users", { headers: { accept } });
+
+  it("should serialize the validated output for the Accept header", async () => {
+    const json = await get("application/json");
+    expect(await json.json()).toEqual([{ id: 1, name: "Ada" }]);
+    expect(json.headers.get("vary")).toBe("Accept");
+
+    const csv = await get("text/csv");
+    expect(csv.headers.get("content-type")).toBe("text/csv");
+    expect(await csv.text()).toBe("id,name\r\n1,Ada\r\n");
+
+    expect(await (await get("application/yaml")).text()).toBe("- id: 1\n");
+  });
+
+  it("should answer unacceptable requests with a 406", async () => {
+    const res = await get("application/xml");
+    expect(res.status).toBe(406);
+    expect((await res.json()).error).toMatchObject({
+      code: "NOT_ACCEPTABLE",
+      details: {
+        available: ["application/json", "text/csv", "application/yaml"],
+      },
+    });
+  });
+
+  it("should document a content entry per media type", () => {
+    const content =
+      generateOpenAPISpec({ api }).paths["/api/users"]?.get?.responses["200"]
+        ?.content ?? {};
+
+    expect(Object.keys(content)).toEqual([
+      "application/json",
+      "text/csv",
+      "application/yaml",
+    ]);
+    expect(content["text/csv"]?.schema).toEqual({ type: "string" });
+    expect(content["application/yaml"]?.schema).toEqual(
+      content["application/json"]?.schema,
+    );
+  });
+
+  it("should reject media types without a serializer", () => {
+    expect(() => t.procedure.produces("application/xml")).toThrow(
+      "No serializer is registered for application/xml",
+    );
+  });
+});
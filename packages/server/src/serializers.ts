@@ -0,0 +1,272 @@
+import { z } from "zod";
+import { NotAcceptableError } from "./errors.js";
+
+/**
+ * Encodes validated output for one response media type
+ */
+export interface Serializer {
+  /** e.g. "text/csv", matched against the Accept header */
+  mediaType: string;
+  serialize: (output: unknown) => string | Uint8Array;
+  /**
+   * JSON Schema documented for this media type in OpenAPI, defaults to the
+   * output schema
+   */
+  schema?: Record<string, unknown>;
+}
+
+// Values as JSON.stringify would write them, e.g. dates as ISO strings
+const toJSONValue = (value: unknown): unknown =>
+  value !== null &&
+  typeof value === "object" &&
+  typeof (value as { toJSON?: unknown }).toJSON === "function"
+    ? (value as { toJSON: () => unknown }).toJSON()
+    : value;
+
+export const jsonSerializer: Serializer = {
+  mediaType: "application/json",
+  serialize: (output) => JSON.stringify(output),
+};
+
+/**
+ * One JSON document per line, one line per item of array outputs
+ */
+export const ndjsonSerializer: Serializer = {
+  mediaType: "application/x-ndjson",
+  serialize: (output) =>
+    (Array.isArray(output) ? output : [output])
+      .map((item) => `${JSON.stringify(item)}\n`)
+      .join(""),
+};
+
+function csvField(value: unknown): string {
+  const field = toJSONValue(value);
+  const text =
+    field === undefined || field === null
+      ? ""
+      : typeof field === "object"
+        ? JSON.stringify(field)
+        : String(field);
+  return /[",\r\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+}
+
+/**
+ * RFC 4180 CSV with a header row, one row per item of array outputs
+ * Nested values are written as JSON
+ */
+export const csvSerializer: Serializer = {
+  mediaType: "text/csv",
+  schema: { type: "string" },
+  serialize: (output) => {
+    const rows = (Array.isArray(output) ? output : [output]).map(
+      (row) => (toJSONValue(row) ?? {}) as Record<string, unknown>,
+    );
+    const columns = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+    return [columns, ...rows.map((row) => columns.map((name) => row[name]))]
+      .map((fields) => `${fields.map(csvField).join(",")}\r\n`)
+      .join("");
+  },
+};
+
+function encodeMessagePack(value: unknown, bytes: number[]): void {
+  const write = (
+    code: number,
+    size: number,
+    set: (view: DataView) => void,
+  ) => {
+    const view = new DataView(new ArrayBuffer(size));
+    set(view);
+    bytes.push(code, ...new Uint8Array(view.buffer));
+  };
+  // Byte by byte, spreading large payloads would overflow the call stack
+  const append = (data: Uint8Array) => {
+    for (const byte of data) {
+      bytes.push(byte);
+    }
+  };
+  // Length prefix of str, bin, array and map values
+  const writeHeader = (
+    length: number,
+    fixCode: number | undefined,
+    fixMax: number,
+    [code8, code16, code32]: [number | undefined, number, number],
+  ) => {
+    if (fixCode !== undefined && length <= fixMax) {
+      bytes.push(fixCode | length);
+    } else if (code8 !== undefined && length < 0x100) {
+      bytes.push(code8, length);
+    } else if (length < 0x10000) {
+      write(code16, 2, (view) => view.setUint16(0, length));
+    } else {
+      write(code32, 4, (view) => view.setUint32(0, length));
+    }
+  };
+
+  // In the smallest form that holds the value
+  const writeInteger = (integer: bigint) => {
+    const small = Number(BigInt.asIntN(32, integer));
+    if (integer >= -32n && integer < 0x80n) {
+      // Positive and negative fixint
+      bytes.push(small & 0xff);
+    } else if (integer >= 0n && integer < 0x100n) {
+      bytes.push(0xcc, small);
+    } else if (integer >= 0n && integer < 0x10000n) {
+      write(0xcd, 2, (view) => view.setUint16(0, small));
+    } else if (integer >= 0n && integer < 0x100000000n) {
+      write(0xce, 4, (view) => view.setUint32(0, Number(integer)));
+    } else if (integer >= 0n && integer < 1n << 64n) {
+      write(0xcf, 8, (view) => view.setBigUint64(0, integer));
+    } else if (integer >= -0x80n && integer < 0n) {
+      bytes.push(0xd0, small & 0xff);
+    } else if (integer >= -0x8000n && integer < 0n) {
+      write(0xd1, 2, (view) => view.setInt16(0, small));
+    } else if (integer >= -0x80000000n && integer < 0n) {
+      write(0xd2, 4, (view) => view.setInt32(0, small));
+    } else if (integer >= -(1n << 63n) && integer < 0n) {
+      write(0xd3, 8, (view) => view.setBigInt64(0, integer));
+    } else {
+      throw new RangeError(
+        `${integer} does not fit in a 64-bit MessagePack integer`,
+      );
+    }
+  };
+
+  const data = toJSONValue(value);
+  if (data === null || data === undefined) {
+    bytes.push(0xc0);
+  } else if (typeof data === "boolean") {
+    bytes.push(data ? 0xc3 : 0xc2);
+  } else if (typeof data === "number" && !Number.isSafeInteger(data)) {
+    write(0xcb, 8, (view) => view.setFloat64(0, data));
+  } else if (typeof data === "number" || typeof data === "bigint") {
+    writeInteger(BigInt(data));
+  } else if (typeof data === "string") {
+    const encoded = new TextEncoder().encode(data);
+    writeHeader(encoded.length, 0xa0, 31, [0xd9, 0xda, 0xdb]);
+    append(encoded);
+  } else if (data instanceof Uint8Array) {
+    writeHeader(data.length, undefined, 0, [0xc4, 0xc5, 0xc6]);
+    append(data);
+  } else if (Array.isArray(data)) {
+    writeHeader(data.length, 0x90, 15, [undefined, 0xdc, 0xdd]);
+    for (const item of data) {
+      encodeMessagePack(item, bytes);
+    }
+  } else if (typeof data === "object") {
+    // Like JSON, undefined members are left out
+    const entries = Object.entries(data).filter(
+      ([, item]) => item !== undefined,
+    );
+    writeHeader(entries.length, 0x80, 15, [undefined, 0xde, 0xdf]);
+    for (const [key, item] of entries) {
+      encodeMessagePack(key, bytes);
+      encodeMessagePack(item, bytes);
+    }
+  } else {
+    bytes.push(0xc0);
+  }
+}
+
+export const msgpackSerializer: Serializer = {
+  mediaType: "application/msgpack",
+  schema: { type: "string", format: "binary" },
+  serialize: (output) => {
+    const bytes: number[] = [];
+    encodeMessagePack(output, bytes);
+    return new Uint8Array(bytes);
+  },
+};
+
+export const builtinSerializers: Serializer[] = [
+  jsonSerializer,
+  ndjsonSerializer,
+  csvSerializer,
+  msgpackSerializer,
+];
+
+/**
+ * Looks up `.produces()` arguments among the serializers registered on
+ * `init()` and the built-in ones
+ */
+export function resolveSerializers(
+  produces: Array<string | Serializer>,
+  registered: Serializer[] = [],
+): Serializer[] {
+  return produces.map((entry) => {
+    if (typeof entry !== "string") {
+      return entry;
+    }
+    const serializer = [...registered, ...builtinSerializers].find(
+      (candidate) => candidate.mediaType === entry,
+    );
+    if (!serializer) {
+      throw new Error(`No serializer is registered for ${entry}`);
+    }
+    return serializer;
+  });
+}
+
+export const notAcceptableErrorSchema = z.object({
+  error: z.object({
+    code: z.literal("NOT_ACCEPTABLE"),
+    message: z.string(),
+    details: z.object({ available: z.array(z.string()) }),
+  }),
+});
+
+/**
+ * Picks the serializer for the Accept header by quality, then by specificity
+ * of the matching range, then by the order passed to `.produces()`
+ * Throws a 406 NotAcceptableError when none is acceptable
+ */
+export function negotiateSerializer(
+  serializers: Serializer[],
+  accept: string | undefined,
+): Serializer {
+  if (!accept?.trim()) {
+    return serializers[0]!;
+  }
+  const ranges = accept.split(",").map((part) => {
+    const [range = "", ...params] = part.trim().toLowerCase().split(";");
+    const quality = params
+      .map((param) => param.trim().split("="))
+      .find(([name]) => name === "q")?.[1];
+    return { range: range.trim(), quality: quality ? Number(quality) : 1 };
+  });
+
+  let best: { serializer: Serializer; score: [number, number] } | undefined;
+  for (const serializer of serializers) {
+    const [type, subtype] = serializer.mediaType.toLowerCase().split("/");
+    // The most specific range decides, e.g. text/csv;q=0 over */*
+    const match = ranges
+      .map(({ range, quality }) => {
+        const specificity =
+          range === `${type}/${subtype}`
+            ? 2
+            : range === `${type}/*`
+              ? 1
+              : range === "*/*"
+                ? 0
+                : -1;
+        return { specificity, quality };
+      })
+      .filter(({ specificity }) => specificity >= 0)
+      .sort((a, b) => b.specificity - a.specificity)[0];
+    if (!match || !(match.quality > 0)) {
+      continue;
+    }
+    if (
+      !best ||
+      match.quality > best.score[0] ||
+      (match.quality === best.score[0] && match.specificity > best.score[1])
+    ) {
+      best = { serializer, score: [match.quality, match.specificity] };
+    }
+  }
+  if (!best) {
+    throw new NotAcceptableError(undefined, {
+      available: serializers.map(({ mediaType }) => mediaType),
+    });
+  }
+  return best.serializer;
+}
@@ -0,0 +1,992 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
+import { serve } from "@hono/node-server";
+import type { ServerType } from "@hono/node-server";
+import { createNodeWebSocket } from "@hono/node-ws";
+import { Hono } from "hono";
+import { defineWebSocketHelper } from "hono/ws";
+import WebSocket from "ws";
+import { z } from "zod";
+import {
+  createContainer,
+  createLogger,
+  createServer,
+  getRequestContext,
+  init,
+  mergeRouters,
+  router,
+} from "./index.js";
+import type { ErrorReport, Middleware } from "./index.js";
+
+describe("createServer", () => {
+  describe("header and cookie inputs", () => {
+    const t = init();
+    const app = createServer(
+      {
+        api: router({
+          "/me": t.procedure
+            .input({
+              headers: z.object({ "x-tenant-id": z.string() }),
+              cookies: z.object({ session: z.string().min(3) }),
+            })
+            .output(z.object({ "x-tenant-id": z.string(), session: z.string() }))
+            .get(({ input }) => input),
+        }),
+      },
+      { defaultErrorHandlers: t.defaultErrorHandlers },
+    );
+
+    it("should validate and merge headers and cookies into input", async () => {
+      const res = await app.request("/api/me", {
+        headers: { "X-Tenant-Id": "acme", Cookie: "session=abc; other=1" },
+      });
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual({ "x-tenant-id": "acme", session: "abc" });
+    });
+
+    it("should report header and cookie variants on failure", async () => {
+      const res = await app.request("/api/me", {
+        headers: { Cookie: "session=a" },
+      });
+      expect(res.status).toBe(400);
+      const { error } = await res.json();
+      expect(error.details).toEqual([
+        expect.stringMatching(/^header\.x-tenant-id:/),
+        expect.stringMatching(/^cookie\.session:/),
+      ]);
+    });
+  });
+
+  it("should only pass declared headers and cookies to error handlers", async () => {
+    const received: unknown[] = [];
+    const t = init({
+      default400Error: (errors) => {
+        received.push(...errors.map(([, variant, value]) => [variant, value]));
+        return [
+          z.object({ code: z.string() }),
+          { code: "VALIDATION_ERROR" },
+        ];
+      },
+    });
+    const app = createServer(
+      {
+        api: router({
+          "/me": t.procedure
+            .input({
+              headers: z.object({ "x-tenant-id": z.string().min(3) }),
+              cookies: z.object({ theme: z.enum(["dark", "light"]) }),
+            })
+            .get(() => new Response()),
+        }),
+      },
+      { defaultErrorHandlers: t.defaultErrorHandlers },
+    );
+    const res = await app.request("/api/me", {
+      headers: {
+        authorization: "Bearer secret",
+        "x-tenant-id": "a",
+        cookie: "session=secret; theme=blue",
+      },
+    });
+
+    expect(res.status).toBe(400);
+    expect(received).toEqual([
+      ["header", { "x-tenant-id": "a" }],
+      ["cookie", { theme: "blue" }],
+    ]);
+  });
+
+  describe("form bodies", () => {
+    const t = init();
+    const app = createServer(
+      {
+        api: router({
+          "/upload": t.procedure
+            .input({
+              contentType: "multipart/form-data",
+              body: z.object({
+                title: z.string(),
+                tags: z.array(z.string()),
+                file: z.file().max(8),
+              }),
+            })
+            .output(
+              z.object({
+                title: z.string(),
+                tags: z.array(z.string()),
+                size: z.number(),
+              }),
+            )
+            .post(({ input }) => ({ ...input, size: input.file.size })),
+          "/subscribe": t.procedure
+            .input({
+              contentType: "application/x-www-form-urlencoded",
+              body: z.object({ email: z.email() }),
+            })
+            .output(z.object({ email: z.string() }))
+            .post(({ input }) => input),
+        }),
+      },
+      { defaultErrorHandlers: t.defaultErrorHandlers },
+    );
+
+    const upload = (content: string) => {
+      const form = new FormData();
+      form.append("title", "report");
+      form.append("tags", "q1");
+      form.append("file", new File([content], "report.txt"));
+      return app.request("/api/upload", { method: "POST", body: form });
+    };
+
+    it("should parse multipart fields and file parts", async () => {
+      const res = await upload("1234");
+      expect(await res.json()).toEqual({
+        title: "report",
+        tags: ["q1"],
+        size: 4,
+      });
+    });
+
+    it("should enforce file size limits from the schema", async () => {
+      const res = await upload("123456789");
+      expect(res.status).toBe(400);
+    });
+
+    it("should parse urlencoded bodies", async () => {
+      const res = await app.request("/api/subscribe", {
+        method: "POST",
+        body: new URLSearchParams({ email: "a@b.co" }),
+      });
+      expect(await res.json()).toEqual({ email: "a@b.co" });
+    });
+
+    it("should reject mismatched content types with 415", async () => {
+      const res = await app.request("/api/subscribe", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email: "a@b.co" }),
+      });
+      expect(res.status).toBe(415);
+      expect((await res.json()).error.code).toBe("UNSUPPORTED_MEDIA_TYPE");
+    });
+  });
+
+  describe("success status and response headers", () => {
+    const t = init();
+    const created = t.procedure
+      .output(z.object({ id: z.string() }))
+      .status(201)
+      .responseHeaders(z.object({ location: z.string() }));
+    const app = createServer({
+      todos: router({
+        "/": created.post(({ ctx }) => {
+          ctx.setHeaders({ location: "/todos/1" });
+          return { id: "1" };
+        }),
+        "/broken": created.post(() => ({ id: "1" })),
+        "/done": t.procedure.status(204).delete(() => {}),
+      }),
+    });
+
+    it("should send the declared status and validated headers", async () => {
+      const res = await app.request("/todos", { method: "POST" });
+      expect(res.status).toBe(201);
+      expect(res.headers.get("location")).toBe("/todos/1");
+      expect(await res.json()).toEqual({ id: "1" });
+    });
+
+    it("should fail when declared headers are missing", async () => {
+      const res = await app.request("/todos/broken", { method: "POST" });
+      expect(res.status).toBe(500);
+    });
+
+    it("should send 204 responses without a body", async () => {
+      const res = await app.request("/todos/done", { method: "DELETE" });
+      expect(res.status).toBe(204);
+      expect(await res.text()).toBe("");
+    });
+  });
+
+  describe("HTTP methods", () => {
+    const t = init();
+    const todo = z.object({ id: z.string() });
+    const app = createServer({
+      todos: router({
+        "/{id}": {
+          get: t.procedure
+            .input({ params: todo })
+            .output(todo)
+            .handler(({ input }) => ({ id: input.id })),
+          delete: t.procedure
+            .input({ params: todo })
+            .status(204)
+            .handler(() => {}),
+        },
+      }),
+      reports: router({
+        "/export": {
+          post: t.procedure.handler(() => new Response("started")),
+          options: t.procedure.handler(() =>
+            Response.json({ formats: ["csv"] }),
+          ),
+        },
+      }),
+    });
+
+    it("should answer HEAD requests with the headers of GET", async () => {
+      const res = await app.request("/todos/1", { method: "HEAD" });
+      expect(res.status).toBe(200);
+      expect(res.headers.get("content-type")).toContain("application/json");
+      expect(await res.text()).toBe("");
+    });
+
+    it("should answer OPTIONS requests with the allowed methods", async () => {
+      const res = await app.request("/todos/1", { method: "OPTIONS" });
+      expect(res.status).toBe(204);
+      expect(res.headers.get("allow")).toBe("GET, HEAD, DELETE, OPTIONS");
+
+      const custom = await app.request("/reports/export", {
+        method: "OPTIONS",
+      });
+      expect(await custom.json()).toEqual({ formats: ["csv"] });
+    });
+
+    it("should answer unsupported methods with a 405", async () => {
+      const res = await app.request("/todos/1", { method: "PUT" });
+      expect(res.status).toBe(405);
+      expect(res.headers.get("allow")).toBe("GET, HEAD, DELETE, OPTIONS");
+      expect(await res.json()).toEqual({
+        error: {
+          code: "METHOD_NOT_ALLOWED",
+          message: "Method not allowed",
+          details: { allowed: ["GET", "HEAD", "DELETE", "OPTIONS"] },
+        },
+      });
+
+      const head = await app.request("/reports/export", { method: "HEAD" });
+      expect(head.status).toBe(405);
+      expect((await app.request("/todos/1/missing")).status).toBe(404);
+    });
+  });
+
+  describe("stream procedures", () => {
+    const t = init();
+    let aborted = false;
+    const reported: unknown[] = [];
+    const app = createServer(
+      {
+        events: router({
+          "/count": t.procedure
+            .input({ query: z.object({ to: z.coerce.number() }) })
+            .output(z.object({ n: z.number().max(2) }))
+            .stream(async function* ({ input }) {
+              for (let n = 1; n <= input.to; n++) {
+                yield { n };
+              }
+            }),
+          "/forever": t.procedure.stream(async function* ({ signal }) {
+            signal.addEventListener("abort", () => (aborted = true));
+            for (let n = 0; ; n++) {
+              yield n;
+              await new Promise((resolve) => setTimeout(resolve, 5));
+            }
+          }),
+        }),
+      },
+      { reportError: (error) => void reported.push(error) },
+    );
+
+    it("should write each validated event as an SSE frame", async () => {
+      const res = await app.request("/events/count?to=2");
+      expect(res.headers.get("content-type")).toBe("text/event-stream");
+      expect(await res.text()).toBe(
+        'data: {"n":1}\nid: 0\n\ndata: {"n":2}\nid: 1\n\n',
+      );
+    });
+
+    it("should end with an error event when an event fails validation", async () => {
+      const text = await (await app.request("/events/count?to=3")).text();
+      expect(text).toMatch(/event: error\ndata: {"error":/);
+      expect(text).not.toContain('"n":3');
+      const data = JSON.parse(text.match(/event: error\ndata: (.*)/)![1]!);
+      expect(data).toEqual({
+        error: {
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Internal server error",
+          details: [],
+          errorId: expect.any(String),
+        },
+      });
+      expect(reported).toHaveLength(1);
+    });
+
+    it("should abort the handler signal when the client disconnects", async () => {
+      const res = await app.request("/events/forever");
+      const reader = res.body!.getReader();
+      await reader.read();
+      await reader.cancel();
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      expect(aborted).toBe(true);
+    });
+  });
+
+  describe("router middleware", () => {
+    const t = init();
+    const calls: string[] = [];
+    const track =
+      (name: string): Middleware<any> =>
+      async ({ next }) => {
+        calls.push(name);
+        return next();
+      };
+    const requireAdmin: Middleware<any> = async ({ ctx, next }) =>
+      ctx.hono.req.header("x-admin")
+        ? next({ ctx: { role: "admin" } })
+        : ctx.hono.json({ error: "Unauthorized" }, 401);
+
+    const ok = t.procedure
+      .use(async ({ next }) => {
+        calls.push("procedure");
+        return next();
+      })
+      .get(({ ctx }) => Response.json({ role: (ctx as any).role ?? null }));
+    const reports = router({ "/reports": ok }).use(track("reports"));
+    const admin = router({ "/stats": ok, nested: reports })
+      .use(track("admin"))
+      .use(requireAdmin);
+    const publicRouter = router({ "/health": ok });
+
+    const app = createServer({
+      admin,
+      public: publicRouter,
+      merged: mergeRouters(router({ "/a": ok }).use(track("a")), router({ "/b": ok })),
+    });
+
+    it("should only run on the router's own procedures", async () => {
+      calls.length = 0;
+      expect((await app.request("/public/health")).status).toBe(200);
+      expect((await app.request("/missing")).status).toBe(404);
+      expect((await app.request("/admin/stats")).status).toBe(401);
+      expect(calls).toEqual(["procedure", "admin"]);
+    });
+
+    it("should run outer routers first, before procedure middleware", async () => {
+      calls.length = 0;
+      const res = await app.request("/admin/nested/reports", {
+        headers: { "x-admin": "1" },
+      });
+      expect(await res.json()).toEqual({ role: "admin" });
+      expect(calls).toEqual(["admin", "reports", "procedure"]);
+    });
+
+    it("should stay scoped through mergeRouters", async () => {
+      calls.length = 0;
+      await app.request("/merged/b");
+      expect(calls).toEqual(["procedure"]);
+      await app.request("/merged/a");
+      expect(calls).toEqual(["procedure", "a", "procedure"]);
+    });
+
+    it("should run before the input is read and validated", async () => {
+      let validated = false;
+      const app = createServer({
+        admin: router({
+          "/users": t.procedure
+            .input({
+              body: z.preprocess(
+                (body) => {
+                  validated = true;
+                  return body;
+                },
+                z.object({ name: z.string() }),
+              ),
+            })
+            .post(({ input }) => Response.json(input)),
+        }).use(requireAdmin),
+      });
+      const post = (headers: Record<string, string>) =>
+        app.request("/admin/users", {
+          method: "POST",
+          headers: { "content-type": "application/json", ...headers },
+          body: JSON.stringify({ name: 1 }),
+        });
+
+      const res = await post({});
+      expect(res.status).toBe(401);
+      expect(await res.json()).toEqual({ error: "Unauthorized" });
+      expect(validated).toBe(false);
+      expect((await post({ "x-admin": "1" })).status).toBe(400);
+    });
+
+    it("should expose the procedure's metadata as ctx.meta", async () => {
+      const audited: unknown[] = [];
+      const audit: Middleware<any> = async ({ ctx, next }) => {
+        audited.push(ctx.meta);
+        return next();
+      };
+      const internal = t.procedure.meta({ tags: ["internal"] });
+      const app = createServer({
+        api: router({
+          "/jobs": internal
+            .meta({ summary: "Run jobs", "x-audit": true })
+            .post(({ ctx }) => Response.json(ctx.meta.tags)),
+          "/health": ok,
+        }).use(audit),
+      });
+
+      const res = await app.request("/api/jobs", { method: "POST" });
+      expect(await res.json()).toEqual(["internal"]);
+      await app.request("/api/health");
+      expect(audited).toEqual([
+        { tags: ["internal"], summary: "Run jobs", "x-audit": true },
+        {},
+      ]);
+    });
+  });
+
+  describe("request context", () => {
+    interface AppContext {
+      db: { id: number };
+    }
+    const t = init<AppContext>();
+    let created = 0;
+    const disposed: Array<AppContext["db"]> = [];
+    const tag: Middleware<any> = async ({ next }) => next({ ctx: { tag: "router" } });
+    const api = router<AppContext>({
+      "/db": t.procedure
+        .use(async ({ ctx, next }) => next({ ctx: { db: ctx.db } }))
+        .get(({ ctx }) =>
+          Response.json({
+            id: ctx.db.id,
+            tag: (ctx as any).tag,
+            shared: getRequestContext<AppContext>(ctx.hono)?.db === ctx.db,
+          }),
+        ),
+      "/fail": t.procedure.get(() => {
+        throw new Error("boom");
+      }),
+      "/feed": t.procedure.stream(async function* ({ ctx }) {
+        yield { disposed: disposed.includes(ctx.db) };
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        yield { disposed: disposed.includes(ctx.db) };
+      }),
+    }).use(tag);
+    const app = createServer<AppContext>(
+      { api },
+      {
+        createContext: () => ({ db: { id: ++created } }),
+        disposeContext: ({ db }) => {
+          disposed.push(db);
+        },
+      },
+    );
+
+    it("should create the context once and share it across middleware", async () => {
+      created = 0;
+      const res = await app.request("/api/db");
+      expect(await res.json()).toEqual({ id: 1, tag: "router", shared: true });
+      expect(created).toBe(1);
+    });
+
+    it("should dispose the context after the response, even on errors", async () => {
+      disposed.length = 0;
+      created = 0;
+      await app.request("/api/db");
+      expect((await app.request("/api/fail")).status).toBe(500);
+      expect(disposed).toEqual([{ id: 1 }, { id: 2 }]);
+    });
+
+    it("should dispose the context of streams once they end", async () => {
+      disposed.length = 0;
+      const res = await app.request("/api/feed");
+      expect(disposed).toEqual([]);
+      expect(await res.text()).not.toContain('"disposed":true');
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(disposed).toHaveLength(1);
+    });
+  });
+
+  describe("services", () => {
+    const released: number[] = [];
+    let connections = 0;
+    const services = createContainer()
+      .singleton("greeting", () => "hello")
+      .request("db", () => ({ id: ++connections }), {
+        dispose: ({ id }) => void released.push(id),
+      });
+    const t = init({ services });
+    const app = createServer({
+      api: router({
+        "/greet": t.procedure
+          .output(z.object({ text: z.string(), db: z.number() }))
+          .get(({ ctx }) => ({
+            text: ctx.services.greeting,
+            db: ctx.services.db.id,
+          })),
+        "/idle": t.procedure.output(z.string()).get(() => "idle"),
+      }),
+    });
+
+    it("should expose typed services and dispose them after the request", async () => {
+      const res = await app.request("/api/greet");
+      expect(await res.json()).toEqual({ text: "hello", db: 1 });
+      expect(released).toEqual([1]);
+    });
+
+    it("should only construct services that are used", async () => {
+      await app.request("/api/idle");
+      expect(connections).toBe(1);
+    });
+
+    it("should use overridden factories", async () => {
+      const restore = services.override({ greeting: () => "fake" });
+      const res = await app.request("/api/greet");
+      restore();
+      expect((await res.json()).text).toBe("fake");
+    });
+  });
+
+  describe("observability", () => {
+    const t = init();
+    const events: string[] = [];
+    const lines: Array<Record<string, unknown>> = [];
+    const app = createServer(
+      {
+        api: router({
+          "/users/{id}": t.procedure
+            .input({ params: z.object({ id: z.coerce.number() }) })
+            .get(({ ctx }) => {
+              ctx.log.info("loading user");
+              return Response.json({ requestId: ctx.requestId });
+            }),
+          "/fail": t.procedure.get(() => {
+            throw new Error("boom");
+          }),
+        }),
+      },
+      {
+        logger: createLogger({
+          write: (line) => void lines.push(JSON.parse(line)),
+        }),
+        hooks: {
+          onRequest: ({ path }) => void events.push(`request ${path}`),
+          onValidationError: () => void events.push("validation"),
+          onHandlerError: ({ error }) =>
+            void events.push(`error ${(error as Error).message}`),
+          onResponse: ({ response }) => {
+            events.push(`response ${response.status}`);
+            if (response.status === 500) {
+              throw new Error("hook failed");
+            }
+          },
+        },
+      },
+    );
+
+    it("should propagate a valid x-request-id and generate one otherwise", async () => {
+      const res = await app.request("/api/users/1", {
+        headers: { "x-request-id": "req-123" },
+      });
+      expect(res.headers.get("x-request-id")).toBe("req-123");
+      expect(await res.json()).toEqual({ requestId: "req-123" });
+
+      const generated = await app.request("/api/users/1", {
+        headers: { "x-request-id": "bad id\n" },
+      });
+      const { requestId } = await generated.json();
+      expect(requestId).toMatch(/^[0-9a-f-]{36}$/);
+      expect(generated.headers.get("x-request-id")).toBe(requestId);
+    });
+
+    it("should log structured entries carrying the request id", async () => {
+      lines.length = 0;
+      await app.request("/api/users/1", {
+        headers: { "x-request-id": "req-1" },
+      });
+      expect(lines).toEqual([
+        expect.objectContaining({
+          level: "info",
+          msg: "loading user",
+          requestId: "req-1",
+        }),
+        expect.objectContaining({
+          level: "info",
+          msg: "request completed",
+          requestId: "req-1",
+          method: "GET",
+          path: "/api/users/:id",
+          status: 200,
+          durationMs: expect.any(Number),
+        }),
+      ]);
+
+      lines.length = 0;
+      await app.request("/api/fail");
+      expect(lines[0]).toMatchObject({
+        level: "error",
+        msg: "request failed",
+        error: { message: "boom", stack: expect.stringContaining("boom") },
+      });
+    });
+
+    it("should call lifecycle hooks without letting them change the response", async () => {
+      events.length = 0;
+      lines.length = 0;
+      expect((await app.request("/api/users/abc")).status).toBe(400);
+      expect((await app.request("/api/fail")).status).toBe(500);
+      expect(events).toEqual([
+        "request /api/users/:id",
+        "validation",
+        "response 400",
+        "request /api/fail",
+        "error boom",
+        "response 500",
+      ]);
+      expect(lines).toContainEqual(
+        expect.objectContaining({
+          level: "error",
+          msg: "server hook failed",
+          requestId: expect.any(String),
+          error: expect.objectContaining({ message: "hook failed" }),
+        }),
+      );
+    });
+  });
+
+  describe("error exposure", () => {
+    interface AppContext {
+      tenant: string;
+    }
+    const t = init<AppContext>();
+    const api = router<AppContext>({
+      "/fail": t.procedure.get(() => {
+        throw new Error("connection refused at 10.0.0.5");
+      }),
+    });
+    const createApp = (
+      options: Parameters<typeof createServer<AppContext>>[1] = {},
+    ) =>
+      createServer<AppContext>(
+        { api },
+        { createContext: () => ({ tenant: "acme" }), ...options },
+      );
+
+    it("should redact unexpected errors behind an id and report them", async () => {
+      const reports: Array<[unknown, ErrorReport<AppContext>]> = [];
+      for (const app of [
+        createApp({ reportError: (...args) => void reports.push(args) }),
+        createApp({
+          defaultErrorHandlers: t.defaultErrorHandlers,
+          reportError: (...args) => void reports.push(args),
+        }),
+      ]) {
+        const res = await app.request("/api/fail");
+        const { error } = await res.json();
+        expect(res.status).toBe(500);
+        expect(error).toEqual({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Internal server error",
+          details: [],
+          errorId: expect.any(String),
+        });
+
+        const [reported, report] = reports.pop()!;
+        expect((reported as Error).message).toBe(
+          "connection refused at 10.0.0.5",
+        );
+        expect(report).toMatchObject({
+          errorId: error.errorId,
+          requestId: res.headers.get("x-request-id"),
+          path: "/api/fail",
+          ctx: { tenant: "acme" },
+        });
+      }
+    });
+
+    it("should expose messages and stacks when enabled", async () => {
+      const res = await createApp({ exposeErrors: true }).request("/api/fail");
+      const { error } = await res.json();
+      expect(error.message).toBe("connection refused at 10.0.0.5");
+      expect(error.details[0]).toContain("connection refused");
+    });
+  });
+
+  describe("declared errors", () => {
+    const t = init();
+    const deny = z.object({ reason: z.string() });
+    const createApp = (options: { exposeErrors?: boolean } = {}) =>
+      createServer(
+        {
+          api: router({
+            "/documents/{id}": t.procedure
+              .input({ params: z.object({ id: z.string() }) })
+              .errors({ 401: deny, 403: deny, 404: z.literal("missing") })
+              .get(({ input, ctx }) => {
+                if (input.id === "private") {
+                  ctx.error(403, { reason: "not shared with you" });
+                }
+                if (input.id === "anonymous") {
+                  ctx.error({ reason: "sign in" });
+                }
+                ctx.error("missing");
+              }),
+          }),
+        },
+        options,
+      );
+
+    it("should warn about overlapping schemas and use explicit statuses", async () => {
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      const app = createApp();
+      expect(warn).toHaveBeenCalledOnce();
+      expect(warn.mock.calls[0]?.[0]).toContain(
+        "Error schemas 401 and 403 of GET /api/documents/:id overlap",
+      );
+      warn.mockRestore();
+
+      const res = await app.request("/api/documents/private");
+      expect(res.status).toBe(403);
+      expect((await res.json()).error.details).toEqual({
+        reason: "not shared with you",
+      });
+      expect((await app.request("/api/documents/1")).status).toBe(404);
+    });
+
+    it("should reject inferring the status of an ambiguous error", async () => {
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      const app = createApp({ exposeErrors: true });
+      warn.mockRestore();
+
+      const res = await app.request("/api/documents/anonymous");
+      expect(res.status).toBe(500);
+      expect((await res.json()).error.message).toContain(
+        "ctx.error() matches the 401, 403 error schemas",
+      );
+    });
+  });
+
+  describe("output validation", () => {
+    const t = init();
+    const api = router({
+      "/users/{id}": t.procedure
+        .input({ params: z.object({ id: z.string() }) })
+        .output(
+          z.object({
+            id: z.string(),
+            name: z.string(),
+            roles: z.array(z.object({ name: z.string() })),
+          }),
+        )
+        .get(({ input }) => ({
+          id: input.id,
+          // A missing name fails validation
+          name: (input.id === "broken" ? undefined : "Ada") as string,
+          passwordHash: "secret",
+          roles: [{ name: "admin", grantedBy: "root" }],
+        })),
+    });
+    const stripped = {
+      id: "1",
+      name: "Ada",
+      roles: [{ name: "admin" }],
+    };
+
+    it("should answer invalid responses with an OUTPUT_VALIDATION_ERROR in strict mode", async () => {
+      const reports: unknown[] = [];
+      const app = createServer(
+        { api },
+        { reportError: (error) => void reports.push(error) },
+      );
+
+      const res = await app.request("/api/users/1");
+      expect(await res.json()).toEqual(stripped);
+
+      const failed = await app.request("/api/users/broken");
+      expect(failed.status).toBe(500);
+      expect((await failed.json()).error).toEqual({
+        code: "OUTPUT_VALIDATION_ERROR",
+        message: "Response failed output validation",
+        errorId: expect.any(String),
+      });
+      expect(reports).toHaveLength(1);
+    });
+
+    it("should report invalid responses and send them stripped in log mode", async () => {
+      const reports: unknown[] = [];
+      const app = createServer(
+        { api },
+        {
+          outputValidation: "log",
+          reportError: (error) => void reports.push(error),
+        },
+      );
+
+      const res = await app.request("/api/users/broken");
+      expect(res.status).toBe(200);
+      expect(await res.json()).toEqual({
+        id: "broken",
+        roles: [{ name: "admin" }],
+      });
+      expect((reports[0] as Error).name).toBe("OutputValidationError");
+    });
+
+    it("should skip validation but still strip unknown keys when off", async () => {
+      const reports: unknown[] = [];
+      const app = createServer(
+        { api },
+        {
+          outputValidation: "off",
+          reportError: (error) => void reports.push(error),
+        },
+      );
+
+      expect(await (await app.request("/api/users/1")).json()).toEqual(
+        stripped,
+      );
+      expect((await app.request("/api/users/broken")).status).toBe(200);
+      expect(reports).toHaveLength(0);
+    });
+  });
+
+  describe("websocket procedures", () => {
+    const t = init<{ user?: string }>();
+    const chat = t.procedure
+      .use(async ({ next }) => next({ ctx: { user: "alice" } }))
+      .input({ params: z.object({ room: z.string().min(2) }) })
+      .websocket({
+        inbound: z.object({ text: z.string() }),
+        outbound: z.object({ room: z.string(), from: z.string(), text: z.string() }),
+        onOpen: ({ input, ws }) => {
+          ws.send({ room: input.room, from: "server", text: "welcome" });
+        },
+        onMessage: ({ input, ctx, message, ws }) => {
+          if (message.text === "fail") {
+            throw new Error("boom");
+          }
+          ws.send({ room: input.room, from: ctx.user, text: message.text });
+        },
+      });
+
+    const app = new Hono();
+    const { injectWebSocket, upgradeWebSocket } = createNodeWebSocket({ app });
+    app.route(
+      "/",
+      createServer(
+        { ws: router({ "/rooms/{room}": chat }) },
+        {
+          upgradeWebSocket,
+          defaultErrorHandlers: t.defaultErrorHandlers,
+          exposeErrors: true,
+        },
+      ),
+    );
+
+    let server: ServerType;
+    let baseUrl: string;
+    beforeAll(async () => {
+      await new Promise<void>((resolve) => {
+        server = serve({ fetch: app.fetch, port: 0 }, (info) => {
+          baseUrl = `ws://localhost:${info.port}`;
+          resolve();
+        });
+        injectWebSocket(server);
+      });
+    });
+    afterAll(() => {
+      server.close();
+    });
+
+    const connect = (path: string) => {
+      const ws = new WebSocket(`${baseUrl}${path}`);
+      const received: unknown[] = [];
+      const waiting: Array<(message: unknown) => void> = [];
+      ws.on("message", (data) => {
+        const message: unknown = JSON.parse(String(data));
+        const resolve = waiting.shift();
+        if (resolve) {
+          resolve(message);
+        } else {
+          received.push(message);
+        }
+      });
+      const next = () =>
+        received.length > 0
+          ? Promise.resolve(received.shift())
+          : new Promise<unknown>((resolve) => waiting.push(resolve));
+      const opened = new Promise<void>((resolve, reject) => {
+        ws.once("open", () => resolve());
+        ws.once("unexpected-response", (_req, res) => reject(res.statusCode));
+      });
+      return { ws, next, opened };
+    };
+
+    it("should validate messages with upgrade input and middleware context", async () => {
+      const { ws, next } = connect("/ws/rooms/general");
+      expect(await next()).toEqual({
+        room: "general",
+        from: "server",
+        text: "welcome",
+      });
+      ws.send(JSON.stringify({ text: "hi" }));
+      expect(await next()).toEqual({
+        room: "general",
+        from: "alice",
+        text: "hi",
+      });
+      ws.close();
+    });
+
+    it("should answer invalid messages and handler errors with error frames", async () => {
+      const { ws, next } = connect("/ws/rooms/general");
+      await next();
+      ws.send("not json");
+      expect(await next()).toMatchObject({
+        error: { code: "VALIDATION_ERROR" },
+      });
+      ws.send(JSON.stringify({ text: "fail" }));
+      expect(await next()).toEqual({
+        error: {
+          code: "INTERNAL_SERVER_ERROR",
+          message: "boom",
+          details: [expect.stringContaining("Error: boom")],
+          errorId: expect.any(String),
+        },
+      });
+      ws.send(JSON.stringify({ text: "still open" }));
+      expect(await next()).toMatchObject({ text: "still open" });
+      ws.close();
+    });
+
+    it("should reject upgrades with invalid input", async () => {
+      await expect(connect("/ws/rooms/x").opened).rejects.toBe(400);
+    });
+
+    it("should answer plain HTTP requests with 426", async () => {
+      const res = await app.request("/ws/rooms/general");
+      expect(res.status).toBe(426);
+    });
+
+    it("should release the request when the upgrade is rejected", async () => {
+      const disposed: string[] = [];
+      const app = createServer<{ user?: string }>(
+        { ws: router<{ user?: string }>({ "/rooms/{room}": chat }) },
+        {
+          upgradeWebSocket: defineWebSocketHelper(() => undefined),
+          createContext: () => ({}),
+          disposeContext: () => void disposed.push("context"),
+        },
+      );
+
+      const res = await app.request("/ws/rooms/general", {
+        headers: { upgrade: "websocket" },
+      });
+      expect(res.status).toBe(500);
+      expect(disposed).toEqual(["context"]);
+    });
+
+    it("should require an upgradeWebSocket adapter", () => {
+      expect(() => createServer({ ws: router({ "/chat": chat }) })).toThrow(
+        /upgradeWebSocket/,
+      );
+    });
+  });
+});
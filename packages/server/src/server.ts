@@ -1,35 +1,91 @@
 import type { Context, Hono } from "hono";
 import { Hono as HonoClass } from "hono";
+import { getCookie } from "hono/cookie";
+import type { UpgradeWebSocket, WSEvents } from "hono/ws";
+import type { Tracer } from "@opentelemetry/api";
 import type { z } from "zod";
 import type { ZodError } from "zod";
-import type { TypedContext, InputConfig, BaseContext } from "./types/index.js";
+import type {
+  TypedContext,
+  InputConfig,
+  InputVariant,
+} from "./types/index.js";
 import type { Procedure } from "./types/procedure.js";
 import type { Router } from "./router.js";
 import { validateInput } from "./validation.js";
-import { ServerError, ValidationError } from "./errors.js";
+import { DEFAULT_BODY_LIMIT, readRequestBody } from "./body.js";
+import { compressResponse } from "./compression.js";
+import type { CompressionOptions } from "./compression.js";
+import { applyCors, isPreflight, sendPreflight } from "./cors.js";
+import type { CorsOptions } from "./cors.js";
+import { getSecurityHeaders } from "./security-headers.js";
+import type { SecurityHeadersOptions } from "./security-headers.js";
+import { disposeServiceScope } from "./container.js";
+import { createIdempotencyGuard } from "./idempotency.js";
+import {
+  allowedMethods,
+  findRouteConflicts,
+  listRoutePatterns,
+  normalizePath,
+} from "./routes.js";
+import type { RouteConflictMode } from "./routes.js";
+import { findAmbiguousErrors } from "./error-schemas.js";
+import { beginRequest, getRequestEvent, runHook } from "./hooks.js";
+import type { ServerHooks } from "./hooks.js";
+import { noopLogger } from "./logger.js";
+import {
+  isDevelopment,
+  reportInternalError,
+  setErrorPolicy,
+  toInternalErrorBody,
+} from "./error-reporting.js";
+import type { ErrorReporter, InternalErrorInfo } from "./error-reporting.js";
+import type { LogFields, Logger } from "./logger.js";
+import { sendError, sendProblem } from "./problem.js";
+import { stripUnknownKeys } from "./output.js";
+import { parseQuery } from "./query.js";
+import { negotiateSerializer } from "./serializers.js";
+import {
+  assertIfMatch,
+  formatCacheControl,
+  sendCacheable,
+  toETag,
+} from "./cache.js";
+import type { OutputValidation } from "./output.js";
+import type { ErrorFormat } from "./problem.js";
+import {
+  recordSpanError,
+  SPAN_KIND_SERVER,
+  SPAN_STATUS_ERROR,
+  startRequestSpan,
+  withChildSpan,
+} from "./tracing.js";
+import {
+  deferRequestDisposal,
+  disposeRequest,
+  getRequestContext,
+  resolveRequestContext,
+  setRequestDisposal,
+} from "./request-context.js";
+import {
+  MethodNotAllowedError,
+  OutputValidationError,
+  ServerError,
+  ValidationError,
+} from "./errors.js";
 import { middlewareMarker } from "./middleware.js";
 import type { MiddlewareResult } from "./middleware.js";
+import { isPlainObject } from "./zod-introspection.js";
 
-function normalizePrefix(prefix: string): string {
-  // Remove trailing slash if present, ensure leading slash
-  const normalized = prefix.startsWith("/") ? prefix : `/${prefix}`;
-  return normalized.endsWith("/") ? normalized.slice(0, -1) : normalized;
-}
+// Errors thrown through ctx.error, whose details are the declared body
+const declaredErrors = new WeakSet<ServerError>();
 
-function normalizePath(prefix: string, path: string): string {
-  const normalizedPrefix = normalizePrefix(prefix);
-  // Ensure path starts with / and remove trailing slash (unless it's just "/")
-  const normalizedPath = path.startsWith("/") ? path : `/${path}`;
-  const cleanPath =
-    normalizedPath.endsWith("/") && normalizedPath !== "/"
-      ? normalizedPath.slice(0, -1)
-      : normalizedPath;
-  // Combine prefix and path - cleanPath already starts with /, so this works correctly
-  // Special case: if cleanPath is "/", just return the prefix (no trailing slash)
-  if (cleanPath === "/") {
-    return normalizedPrefix;
-  }
-  return `${normalizedPrefix}${cleanPath}`;
+function declaredErrorMessage(body: unknown): string {
+  return isPlainObject(body) &&
+    isPlainObject(body.error) &&
+    typeof body.error.message === "string"
+    ? body.error.message
+    : "Error occurred";
 }
 
 export function createServer<
@@ -38,6 +94,14 @@ export function createServer<
   config: Record<string, Router<TCustomContext> | Router<TCustomContext>[]>,
   options?: {
     createContext?: (c: Context) => Promise<TCustomContext> | TCustomContext;
+    /**
+     * Runs once the response is produced, e.g. to release a DB client
+     * For stream and WebSocket procedures, once the stream or socket closes
+     */
+    disposeContext?: (
+      ctx: TCustomContext,
+      c: Context,
+    ) => Promise<void> | void;
     middleware?: {
       [path: string]: {
         methods: string[];
@@ -48,14 +112,81 @@ export function createServer<
       path?: string;
       openapiPath?: string;
     };
+    /**
+     * Structured logger for request completion, unhandled errors, failing
+     * hooks, error reporters and disposers, and setup warnings like route
+     * conflicts, also exposed as `ctx.log`. Only setup warnings are logged
+     * when omitted, through console.warn
+     */
+    logger?: Logger;
+    hooks?: ServerHooks;
+    /**
+     * Traces each request with child spans for validation, middleware and
+     * the handler, e.g. `trace.getTracer("api")` from `@opentelemetry/api`
+     */
+    tracer?: Tracer;
+    /**
+     * Send messages and stacks of unexpected errors to clients
+     * Defaults to true only when NODE_ENV is "development"
+     */
+    exposeErrors?: boolean;
+    /**
+     * Receives every unexpected error and 5xx ServerError with the id
+     * returned to the client, e.g. to forward it to an error tracker
+     */
+    reportError?: ErrorReporter<TCustomContext>;
+    /**
+     * `"problem+json"` renders all error responses as RFC 9457 Problem
+     * Details with the application/problem+json content type
+     */
+    errorFormat?: ErrorFormat;
+    /**
+     * How responses are checked against output schemas, e.g.
+     * `process.env.NODE_ENV === "production" ? "off" : "strict"`
+     * Defaults to "strict"
+     */
+    outputValidation?: OutputValidation;
+    /**
+     * Largest request body accepted, in bytes after decompression, unless a
+     * procedure sets `.bodyLimit()`. Defaults to 1 MiB
+     */
+    bodyLimit?: number;
+    /**
+     * Compress responses with the encoding negotiated by Accept-Encoding
+     * Request bodies are decompressed either way
+     */
+    compression?: boolean | CompressionOptions;
+    /**
+     * CORS headers for procedure responses, and preflight responses for
+     * every procedure path
+     */
+    cors?: CorsOptions;
+    /**
+     * Send HSTS, CSP, X-Content-Type-Options, X-Frame-Options and
+     * Referrer-Policy with procedure responses, `true` for the defaults
+     * Routers can override them with `router.securityHeaders()`
+     */
+    securityHeaders?: boolean | SecurityHeadersOptions;
+    /**
+     * What to do with duplicate routes, routes shadowed by an earlier
+     * parameter route and path parameters named differently across
+     * prefixes. Defaults to "warn"
+     */
+    routeConflicts?: RouteConflictMode;
+    /**
+     * Runtime adapter used to serve `.websocket()` procedures,
+     * e.g. `upgradeWebSocket` from `@hono/node-ws` or `hono/bun`
+     */
+    upgradeWebSocket?: UpgradeWebSocket<any>;
     defaultErrorHandlers?: {
       default400Error: (
         errors: Array<
-          [error: ZodError, variant: "body" | "param" | "query", value: unknown]
+          [error: ZodError, variant: InputVariant, value: unknown]
         >,
       ) => [z.ZodObject<any>, z.infer<z.ZodObject<any>>];
       default500Error: (
         error: unknown,
+        info: InternalErrorInfo,
       ) => [z.ZodObject<any>, z.infer<z.ZodObject<any>>];
       default400ErrorSchema?: z.ZodObject<any>;
       default500ErrorSchema?: z.ZodObject<any>;
@@ -92,19 +223,78 @@ export function createServer<
     }
   }
 
-  // Collect all procedures and middleware from all routers
-  const allProcedures: Procedure<
+  const logger = options?.logger ?? noopLogger;
+  const tracer = options?.tracer;
+  const errorPolicy = {
+    expose: options?.exposeErrors ?? isDevelopment(),
+    report: options?.reportError,
+    format: options?.errorFormat,
+  };
+
+  const outputValidation = options?.outputValidation ?? "strict";
+  const compression =
+    typeof options?.compression === "object" ? options.compression : undefined;
+  const securityHeaders =
+    typeof options?.securityHeaders === "object"
+      ? options.securityHeaders
+      : undefined;
+
+  const validateOutput = async (
+    c: Context,
+    schema: z.ZodTypeAny | undefined,
+    output: unknown,
+  ): Promise<unknown> => {
+    if (!schema) {
+      return output;
+    }
+    if (outputValidation === "off") {
+      return stripUnknownKeys(schema, output);
+    }
+    const result = schema.safeParse(output);
+    if (result.success) {
+      return result.data;
+    }
+    const error = new OutputValidationError(undefined, result.error.issues);
+    if (outputValidation === "strict") {
+      throw error;
+    }
+    const { errorId } = await reportInternalError(c, error);
+    getRequestEvent(c).log.warn("response failed output validation", {
+      errorId,
+      issues: result.error.issues,
+    });
+    return stripUnknownKeys(schema, output);
+  };
+
+  const disposeRequestScope = async (c: Context): Promise<void> => {
+    // Services may depend on the context, so they are released first
+    try {
+      await disposeServiceScope(c);
+    } catch (error) {
+      getRequestEvent(c).log.error("failed to dispose request services", {
+        error,
+      });
+    }
+    const customContext = getRequestContext<TCustomContext>(c);
+    if (options?.disposeContext && customContext) {
+      try {
+        await options.disposeContext(customContext, c);
+      } catch (error) {
+        getRequestEvent(c).log.error("failed to dispose request context", {
+          error,
+        });
+      }
+    }
+  };
+
+  // Collect all procedures from all routers
+  // Router middleware is already part of each procedure's middleware chain
+  const procedures: Procedure<
     InputConfig,
     z.ZodTypeAny | undefined,
     Record<number, z.ZodTypeAny> | undefined,
     TCustomContext
   >[] = [];
-  const allMiddleware: Array<
-    (opts: {
-      ctx: BaseContext & TCustomContext;
-      next: () => Promise<(BaseContext & TCustomContext) | Response>;
-    }) => Promise<(BaseContext & TCustomContext) | Response>
-  > = [];
 
   for (const [prefix, routerOrRouters] of Object.entries(config)) {
     const routers = Array.isArray(routerOrRouters)
@@ -112,71 +302,140 @@ export function createServer<
       : [routerOrRouters];
 
     for (const router of routers) {
-      const routerProcedures = router.getProcedures();
-      const routerMiddleware = router.getMiddleware();
-
       // Add procedures with prefixed paths
-      for (const procedure of routerProcedures) {
-        allProcedures.push({
+      for (const procedure of router.getProcedures()) {
+        procedures.push({
           ...procedure,
           path: normalizePath(prefix, procedure.path),
         });
       }
+    }
+  }
+
+  // Setup problems are surfaced even when no logger is configured
+  const warn = (message: string, fields: LogFields) =>
+    options?.logger
+      ? options.logger.warn(message, fields)
+      : console.warn(message);
 
-      // Add middleware (cast to the expected type since we'll provide TCustomContext)
-      allMiddleware.push(...(routerMiddleware as typeof allMiddleware));
+  const routeConflicts = options?.routeConflicts ?? "warn";
+  if (routeConflicts !== "off") {
+    const conflicts = findRouteConflicts(listRoutePatterns(config));
+    if (routeConflicts === "strict" && conflicts.length > 0) {
+      throw new Error(
+        `Route conflicts:\n${conflicts.map((conflict) => conflict.message).join("\n")}`,
+      );
+    }
+    for (const conflict of conflicts) {
+      warn(conflict.message, { conflict: conflict.kind });
     }
   }
 
-  const routerMiddleware = allMiddleware;
-  const procedures = allProcedures;
-
-  for (const middleware of routerMiddleware) {
-    app.use("*", async (c, next) => {
-      const customContext = options?.createContext
-        ? await options.createContext(c)
-        : ({} as TCustomContext);
-      let baseCtx = { hono: c, ...customContext } as BaseContext &
-        TCustomContext;
-      const result = await middleware({
-        ctx: baseCtx,
-        next: async (opts?: { ctx: Partial<BaseContext & TCustomContext> }) => {
-          // Merge context updates if provided (tRPC pattern)
-          if (opts?.ctx) {
-            baseCtx = { ...baseCtx, ...opts.ctx } as BaseContext &
-              TCustomContext;
-          }
-          await next();
-          return baseCtx;
-        },
-      });
-      if (result instanceof Response) {
-        return result;
+  const methodsByPath = new Map<string, string[]>();
+  for (const procedure of procedures) {
+    const methods = methodsByPath.get(procedure.path) ?? [];
+    methodsByPath.set(procedure.path, [...methods, procedure.method]);
+  }
+
+  const cors = options?.cors;
+  // Reflecting every origin with credentials would let any site make
+  // authenticated requests
+  if (cors?.credentials && [cors.origin].flat().includes("*")) {
+    throw new Error(
+      'The cors origin "*" cannot be combined with credentials, list the allowed origins instead',
+    );
+  }
+
+  // Registered before the procedures, so preflight requests never reach
+  // OPTIONS procedures
+  for (const [path, methods] of methodsByPath) {
+    const allow = allowedMethods(methods).join(", ");
+    app.options(path, async (c, next) => {
+      if (cors && isPreflight(c)) {
+        return sendPreflight(c, cors, methods);
       }
+      if (methods.includes("OPTIONS")) {
+        await next();
+        return c.res;
+      }
+      return c.body(null, 204, { allow });
     });
   }
 
   for (const procedure of procedures) {
+    const upgradeWebSocket = procedure.config.websocket
+      ? options?.upgradeWebSocket
+      : undefined;
+    if (procedure.config.websocket && !upgradeWebSocket) {
+      throw new Error(
+        `WebSocket procedure ${procedure.path} requires the upgradeWebSocket option`,
+      );
+    }
+    const ambiguousErrors = findAmbiguousErrors(procedure.config.errors);
+    for (const [status, otherStatus] of ambiguousErrors) {
+      warn(
+        `Error schemas ${status} and ${otherStatus} of ${procedure.method} ${procedure.path} overlap, errors matching both need an explicit status: ctx.error(${status}, error)`,
+        {
+          method: procedure.method,
+          path: procedure.path,
+          statuses: [status, otherStatus],
+        },
+      );
+    }
+
+    const idempotency = procedure.config.idempotency
+      ? createIdempotencyGuard(procedure.config.idempotency)
+      : undefined;
+
     const handler = async (c: Context) => {
+      const event = getRequestEvent(c);
+      setRequestDisposal(c, () => disposeRequestScope(c));
       try {
-        const params = c.req.param();
-        const queryRaw = c.req.query();
-        const query: Record<string, unknown> = {};
-        for (const [key, value] of Object.entries(queryRaw)) {
-          query[key] = value;
+        if (
+          upgradeWebSocket &&
+          c.req.header("upgrade")?.toLowerCase() !== "websocket"
+        ) {
+          throw new ServerError(
+            426,
+            "UPGRADE_REQUIRED",
+            "Expected a WebSocket upgrade request",
+          );
         }
-        const body = await c.req.json().catch(() => ({}));
+
+        const params = c.req.param();
+        // Unacceptable requests are rejected before the handler runs
+        const serializer = procedure.config.produces
+          ? negotiateSerializer(
+              procedure.config.produces,
+              c.req.header("accept"),
+            )
+          : undefined;
 
         const inputConfig = procedure.config.input;
-        const validatedInput = await validateInput(
-          inputConfig,
-          params,
-          query,
-          body,
-        );
+        const readInput = () =>
+          withChildSpan(c, tracer, "validation", {}, async () =>
+            validateInput(
+              inputConfig,
+              params,
+              parseQuery(c.req.queries()),
+              await readRequestBody(c, inputConfig, {
+                limit:
+                  procedure.config.bodyLimit ??
+                  options?.bodyLimit ??
+                  DEFAULT_BODY_LIMIT,
+                codecs: compression?.codecs,
+              }),
+              inputConfig.headers ? c.req.header() : {},
+              inputConfig.cookies ? getCookie(c) : {},
+            ),
+          );
 
-        const errorFn = (error: unknown): never => {
-          if (!procedure.config.errors) {
+        const errorFn = (
+          ...args: [error: unknown] | [status: number, error: unknown]
+        ): never => {
+          const errors = procedure.config.errors;
+          const error = args.length === 2 ? args[1] : args[0];
+          if (!errors) {
             throw new ServerError(
               500,
               "INTERNAL_SERVER_ERROR",
@@ -184,29 +443,41 @@ export function createServer<
             );
           }
 
-          let statusCode = 500;
-          for (const [code, schema] of Object.entries(
-            procedure.config.errors,
-          )) {
-            const result = (schema as z.ZodTypeAny).safeParse(error);
-            if (result.success) {
-              statusCode = Number(code);
-              const errorResponse = result.data;
-              throw new ServerError(
-                statusCode,
-                "ERROR",
-                typeof errorResponse === "object" &&
-                errorResponse !== null &&
-                "error" in errorResponse &&
-                typeof errorResponse.error === "object" &&
-                errorResponse.error !== null &&
-                "message" in errorResponse.error &&
-                typeof errorResponse.error.message === "string"
-                  ? errorResponse.error.message
-                  : "Error occurred",
-                errorResponse,
-              );
+          const matches: Array<[status: number, body: unknown]> = [];
+          if (args.length === 2) {
+            const result = errors[args[0]]?.safeParse(error);
+            if (result?.success) {
+              matches.push([args[0], result.data]);
             }
+          } else {
+            for (const [code, schema] of Object.entries(errors)) {
+              const result = (schema as z.ZodTypeAny).safeParse(error);
+              if (result.success) {
+                matches.push([Number(code), result.data]);
+                // Only overlapping schemas can match more than once
+                if (ambiguousErrors.length === 0) {
+                  break;
+                }
+              }
+            }
+          }
+          if (matches.length > 1) {
+            const statuses = matches.map(([status]) => status);
+            throw new Error(
+              `ctx.error() matches the ${statuses.join(", ")} error schemas of ${procedure.method} ${procedure.path}, pass the status as in ctx.error(${statuses[0]}, error)`,
+            );
+          }
+          const [match] = matches;
+          if (match) {
+            const [statusCode, errorResponse] = match;
+            const declaredError = new ServerError(
+              statusCode,
+              "ERROR",
+              declaredErrorMessage(errorResponse),
+              errorResponse,
+            );
+            declaredErrors.add(declaredError);
+            throw declaredError;
           }
 
           throw new ServerError(
@@ -217,53 +488,89 @@ export function createServer<
           );
         };
 
-        const customContext = options?.createContext
-          ? await options.createContext(c)
-          : ({} as TCustomContext);
+        const customContext = await resolveRequestContext(
+          c,
+          options?.createContext,
+        );
         type ProcedureContext = TypedContext<
           InputConfig,
           Record<number, z.ZodTypeAny> | undefined,
           TCustomContext
         >;
 
+        let responseHeaders: Record<string, unknown> = {};
+        let etag: string | undefined;
         const ctx: ProcedureContext = {
           ...customContext,
           hono: c,
-          input: validatedInput,
+          requestId: event.requestId,
+          log: event.log,
+          // Read once router middleware has run
+          input: undefined,
+          meta: procedure.config.meta ?? {},
           error: errorFn,
+          setHeaders: (headers: Record<string, unknown>) => {
+            responseHeaders = { ...responseHeaders, ...headers };
+          },
+          setETag: (version: string | number, options?: { weak?: boolean }) => {
+            etag = toETag(version, options?.weak);
+          },
+          ifMatch: (version: string | number) => assertIfMatch(c, version),
         } as ProcedureContext;
 
         let currentCtx: ProcedureContext = ctx;
         let middlewareIndex = 0;
+        // Router middleware like auth runs before the input is read, so
+        // rejected callers never get validation details
+        const middlewareChain = [
+          ...procedure.routerMiddleware,
+          ...procedure.middleware,
+        ];
+        let inputRead = false;
 
         const runMiddleware = async (): Promise<
           ProcedureContext | Response
         > => {
-          if (middlewareIndex >= procedure.middleware.length) {
+          if (
+            !inputRead &&
+            middlewareIndex === procedure.routerMiddleware.length
+          ) {
+            inputRead = true;
+            currentCtx = { ...currentCtx, input: await readInput() };
+          }
+          if (middlewareIndex >= middlewareChain.length) {
             return currentCtx;
           }
-          const middleware = procedure.middleware[middlewareIndex++];
+          const index = middlewareIndex++;
+          const middleware = middlewareChain[index];
           if (!middleware) {
             return currentCtx;
           }
-          const result = await middleware({
-            ctx: currentCtx,
-            next: async (
-              opts?: { ctx?: Partial<ProcedureContext> },
-            ): Promise<MiddlewareResult<Partial<ProcedureContext>>> => {
-              // Merge context updates if provided
-              if (opts?.ctx) {
-                currentCtx = { ...currentCtx, ...opts.ctx } as ProcedureContext;
-              }
-              const nextResult = await runMiddleware();
-              // Return MiddlewareResult wrapper for type safety
-              return {
-                marker: middlewareMarker,
-                ok: true as const,
-                data: nextResult,
-              };
+          const next = async (
+            opts?: { ctx?: Partial<ProcedureContext> },
+          ): Promise<MiddlewareResult<Partial<ProcedureContext>>> => {
+            // Merge context updates if provided
+            if (opts?.ctx) {
+              currentCtx = { ...currentCtx, ...opts.ctx } as ProcedureContext;
+            }
+            const nextResult = await runMiddleware();
+            // Return MiddlewareResult wrapper for type safety
+            return {
+              marker: middlewareMarker,
+              ok: true as const,
+              data: nextResult,
+            };
+          };
+          const result = await withChildSpan(
+            c,
+            tracer,
+            "middleware",
+            {
+              "altstack.middleware.index": index,
+              "altstack.middleware.name": middleware.name || undefined,
             },
-          });
+            () => middleware({ ctx: currentCtx, next }),
+          );
 
           // Handle both legacy middleware (returns context/Response) and new middleware (returns MiddlewareResult)
           if (result instanceof Response) {
@@ -295,22 +602,92 @@ export function createServer<
           return middlewareResult;
         }
         currentCtx = middlewareResult as ProcedureContext;
+        // Legacy middleware returning its context skips the rest of the chain
+        if (!inputRead) {
+          currentCtx = { ...currentCtx, input: await readInput() };
+        }
 
-        const response = await procedure.handler(currentCtx);
+        const handlerCtx = currentCtx;
+        const replayed = await idempotency?.claim(c, handlerCtx);
+        if (replayed) {
+          return replayed;
+        }
+        const response = await withChildSpan(c, tracer, "handler", {}, () =>
+          procedure.handler(handlerCtx),
+        );
+
+        if (upgradeWebSocket) {
+          // Throws when the upgrade is rejected, so the request is released
+          // below. Once upgraded, the socket releases it when it closes
+          const upgrade = await upgradeWebSocket(
+            c,
+            response as unknown as WSEvents,
+          );
+          deferRequestDisposal(c);
+          return upgrade;
+        }
 
         // If handler returns a Response directly (e.g., HTML), return it as-is
         if (response instanceof Response) {
           return response;
         }
 
-        if (procedure.config.output) {
-          const validated = procedure.config.output.parse(response);
-          return c.json(validated);
+        const validated = await validateOutput(
+          c,
+          procedure.config.output,
+          response,
+        );
+
+        const headers = procedure.config.responseHeaders
+          ? (procedure.config.responseHeaders.parse(
+              responseHeaders,
+            ) as Record<string, unknown>)
+          : responseHeaders;
+        for (const [name, value] of Object.entries(headers)) {
+          if (value !== undefined) {
+            c.header(name, String(value));
+          }
         }
 
-        return c.json(response);
+        const status = procedure.config.status ?? 200;
+        const cache = procedure.config.cache;
+        if (cache?.cacheControl !== undefined) {
+          c.header("cache-control", formatCacheControl(cache.cacheControl));
+        }
+        // 204/205 never carry a body, and handlers without an output may return nothing
+        if (status === 204 || status === 205 || validated === undefined) {
+          if (etag) {
+            c.header("etag", etag);
+          }
+          return c.body(null, status);
+        }
+        if (serializer && procedure.config.produces!.length > 1) {
+          c.header("vary", "Accept", { append: true });
+        }
+        if (cache) {
+          return sendCacheable(c, cache, {
+            body: serializer
+              ? serializer.serialize(validated)
+              : JSON.stringify(validated),
+            contentType: serializer?.mediaType ?? "application/json",
+            status,
+            etag,
+          });
+        }
+        if (etag) {
+          c.header("etag", etag);
+        }
+        if (serializer) {
+          return c.body(
+            serializer.serialize(validated) as string | Uint8Array<ArrayBuffer>,
+            status,
+            { "content-type": serializer.mediaType },
+          );
+        }
+        return c.json(validated, status);
       } catch (error) {
         if (error instanceof ValidationError) {
+          await runHook(options?.hooks?.onValidationError, { ...event, error });
           // Use default 400 error handler if available
           if (
             options?.defaultErrorHandlers &&
@@ -320,72 +697,157 @@ export function createServer<
             Array.isArray(error.details.errors)
           ) {
             const errors = error.details.errors as Array<
-              [ZodError, "body" | "param" | "query", unknown]
+              [ZodError, InputVariant, unknown]
             >;
             const [_schema, instance] =
               options.defaultErrorHandlers.default400Error(errors);
-            return c.json({ error: instance }, 400);
+            return sendError(c, 400, instance);
           }
           // Fallback to default validation error format
-          return c.json(
-            {
-              error: {
-                code: "VALIDATION_ERROR",
-                message: error.message,
-                details: error.details
-                  ? Array.isArray(error.details)
-                    ? error.details
-                    : [String(error.details)]
-                  : [],
-              },
-            },
-            400,
-          );
+          return sendError(c, 400, {
+            code: "VALIDATION_ERROR",
+            message: error.message,
+            details: error.details
+              ? Array.isArray(error.details)
+                ? error.details
+                : [String(error.details)]
+              : [],
+          });
+        }
+        await runHook(options?.hooks?.onHandlerError, { ...event, error });
+        if (error instanceof ServerError && error.statusCode < 500) {
+          if (
+            errorPolicy.format === "problem+json" &&
+            declaredErrors.has(error)
+          ) {
+            // Members of the declared body become extension members
+            return sendProblem(
+              c,
+              error.statusCode,
+              error.message,
+              isPlainObject(error.details)
+                ? error.details
+                : { details: error.details },
+            );
+          }
+          return sendError(c, error.statusCode, error.toJSON().error);
         }
+
+        const info = await reportInternalError(c, error);
+        event.log.error("request failed", { error, errorId: info.errorId });
         if (error instanceof ServerError) {
-          return c.json(error.toJSON(), error.statusCode as any);
+          return sendError(
+            c,
+            error.statusCode,
+            toInternalErrorBody(error, info),
+          );
         }
         // Use default 500 error handler if available
         if (options?.defaultErrorHandlers) {
           const [_schema, instance] =
-            options.defaultErrorHandlers.default500Error(error);
-          return c.json({ error: instance }, 500);
+            options.defaultErrorHandlers.default500Error(error, info);
+          return sendError(c, 500, instance);
         }
         // Fallback to default 500 error format
-        return c.json(
-          {
-            error: {
-              code: "INTERNAL_SERVER_ERROR",
-              message:
-                error instanceof Error
-                  ? error.message
-                  : "Internal server error",
-              details:
-                error instanceof Error && error.stack ? [error.stack] : [],
+        return sendError(c, 500, toInternalErrorBody(error, info));
+      } finally {
+        // Streams and WebSockets defer this until they close
+        await disposeRequest(c);
+      }
+    };
+
+    const route = async (c: Context) => {
+      const start = performance.now();
+      const event = beginRequest(c, procedure.method, procedure.path, logger);
+      c.header("x-request-id", event.requestId);
+      setErrorPolicy(c, errorPolicy);
+      const span = tracer
+        ? await startRequestSpan(
+            c,
+            tracer,
+            `${procedure.method} ${procedure.path}`,
+            {
+              kind: SPAN_KIND_SERVER,
+              attributes: {
+                "http.request.method": procedure.method,
+                "http.route": procedure.path,
+                "url.path": c.req.path,
+                "altstack.request_id": event.requestId,
+              },
             },
-          },
-          500,
-        );
+          )
+        : undefined;
+      await runHook(options?.hooks?.onRequest, event);
+
+      let response: Response;
+      try {
+        response = await handler(c);
+        await idempotency?.settle(c, response);
+        span?.setAttribute("http.response.status_code", response.status);
+        if (response.status >= 500) {
+          span?.setStatus({ code: SPAN_STATUS_ERROR });
+        }
+      } catch (error) {
+        // Frees the key claimed for a request that produced no response
+        await idempotency?.settle(c, undefined);
+        if (span) {
+          recordSpanError(span, error);
+        }
+        throw error;
+      } finally {
+        span?.end();
+      }
+      // Responses returned as-is by handlers bypass c.header(), and replayed
+      // ones carry the id of the request that produced them
+      if (response.headers.get("x-request-id") !== event.requestId) {
+        response = new Response(response.body, response);
+        response.headers.set("x-request-id", event.requestId);
+      }
+      if (options?.securityHeaders) {
+        for (const [name, value] of Object.entries(
+          getSecurityHeaders(securityHeaders, procedure.securityHeaders),
+        )) {
+          // Headers set by the handler win
+          if (!response.headers.has(name)) {
+            response.headers.set(name, value);
+          }
+        }
+      }
+      if (options?.cors) {
+        response = await applyCors(c, options.cors, response);
+      }
+      if (options?.compression) {
+        response = compressResponse(c, response, compression ?? {});
       }
+
+      const durationMs = Math.round((performance.now() - start) * 100) / 100;
+      event.log.info("request completed", {
+        status: response.status,
+        durationMs,
+      });
+      await runHook(options?.hooks?.onResponse, {
+        ...event,
+        response,
+        durationMs,
+      });
+      return response;
     };
 
-    switch (procedure.method) {
-      case "GET":
-        app.get(procedure.path, handler);
-        break;
-      case "POST":
-        app.post(procedure.path, handler);
-        break;
-      case "PUT":
-        app.put(procedure.path, handler);
-        break;
-      case "PATCH":
-        app.patch(procedure.path, handler);
-        break;
-      case "DELETE":
-        app.delete(procedure.path, handler);
-        break;
-    }
+    app.on(procedure.method, procedure.path, route);
+  }
+
+  // Reached only when no procedure of the path handles the method
+  for (const [path, methods] of methodsByPath) {
+    const allowed = allowedMethods(methods);
+    app.all(path, (c) => {
+      setErrorPolicy(c, errorPolicy);
+      c.header("allow", allowed.join(", "));
+      return sendError(
+        c,
+        405,
+        new MethodNotAllowedError(undefined, { allowed }).toJSON().error,
+      );
+    });
   }
 
   return app;
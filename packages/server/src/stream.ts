@@ -0,0 +1,71 @@
+import type { Context } from "hono";
+import { streamSSE } from "hono/streaming";
+import type { z } from "zod";
+import { ServerError } from "./errors.js";
+import {
+  reportInternalError,
+  toInternalErrorBody,
+} from "./error-reporting.js";
+import { formatError } from "./problem.js";
+import { deferRequestDisposal } from "./request-context.js";
+
+/**
+ * Writes every event yielded by `events` as an SSE frame after validating it
+ * against `schema`. Since the status code is already sent once streaming
+ * starts, failures are reported as a final `error` event.
+ * The signal passed to `events` aborts when the client disconnects.
+ * The request's services and context are released once the stream ends.
+ */
+export function streamEvents(
+  c: Context,
+  schema: z.ZodTypeAny | undefined,
+  events: (signal: AbortSignal) => AsyncIterable<unknown>,
+): Response {
+  const controller = new AbortController();
+  const release = deferRequestDisposal(c);
+
+  return streamSSE(c, async (stream) => {
+    stream.onAbort(() => controller.abort());
+    let id = 0;
+    try {
+      for await (const event of events(controller.signal)) {
+        if (controller.signal.aborted) {
+          break;
+        }
+        const data = schema ? schema.parse(event) : event;
+        await stream.writeSSE({
+          id: String(id++),
+          data: JSON.stringify(data),
+        });
+      }
+    } catch (error) {
+      if (controller.signal.aborted) {
+        return;
+      }
+      if (error instanceof ServerError && error.statusCode < 500) {
+        await stream.writeSSE({
+          event: "error",
+          data: JSON.stringify(
+            formatError(c, error.statusCode, error.toJSON().error),
+          ),
+        });
+        return;
+      }
+      // Invalid events and handler failures are reported like those of
+      // regular procedures, including their redaction
+      const info = await reportInternalError(c, error);
+      await stream.writeSSE({
+        event: "error",
+        data: JSON.stringify(
+          formatError(
+            c,
+            error instanceof ServerError ? error.statusCode : 500,
+            toInternalErrorBody(error, info),
+          ),
+        ),
+      });
+    } finally {
+      await release();
+    }
+  });
+}
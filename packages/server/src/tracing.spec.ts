@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import { propagation, SpanStatusCode } from "@opentelemetry/api";
+import { W3CTraceContextPropagator } from "@opentelemetry/core";
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+} from "@opentelemetry/sdk-trace-base";
+import type { ReadableSpan } from "@opentelemetry/sdk-trace-base";
+import { z } from "zod";
+import { createServer, init, router } from "./index.js";
+
+describe("tracing", () => {
+  const exporter = new InMemorySpanExporter();
+  const provider = new BasicTracerProvider({
+    spanProcessors: [new SimpleSpanProcessor(exporter)],
+  });
+  const tracer = provider.getTracer("test");
+
+  beforeAll(() => {
+    propagation.setGlobalPropagator(new W3CTraceContextPropagator());
+  });
+  afterAll(() => {
+    propagation.disable();
+  });
+  beforeEach(() => {
+    exporter.reset();
+  });
+
+  const t = init();
+  const app = createServer(
+    {
+      api: router({
+        "/users/{id}": t.procedure
+          .input({ params: z.object({ id: z.string() }) })
+          .errors({ 404: z.object({ error: z.literal("not found") }) })
+          .use(async function auth({ next }) {
+            return next();
+          })
+          .get(({ input, ctx }) => {
+            if (input.id === "missing") {
+              ctx.error({ error: "not found" });
+            }
+            return Response.json({ id: input.id });
+          }),
+      }),
+    },
+    { tracer },
+  );
+
+  // Renders each span as "name > parent name" to assert the tree shape
+  const tree = (spans: ReadableSpan[]) =>
+    spans.map((span) => {
+      const parent = spans.find(
+        (candidate) =>
+          candidate.spanContext().spanId === span.parentSpanContext?.spanId,
+      );
+      return parent ? `${span.name} > ${parent.name}` : span.name;
+    });
+
+  it("should create child spans for validation, middleware and the handler", async () => {
+    await app.request("/api/users/1");
+    const spans = exporter.getFinishedSpans();
+
+    expect(tree(spans).sort()).toEqual([
+      "GET /api/users/:id",
+      "handler > GET /api/users/:id",
+      "middleware > GET /api/users/:id",
+      "validation > GET /api/users/:id",
+    ]);
+    const root = spans.find((span) => span.name === "GET /api/users/:id");
+    expect(root?.attributes).toMatchObject({
+      "http.request.method": "GET",
+      "http.route": "/api/users/:id",
+      "http.response.status_code": 200,
+    });
+    const middleware = spans.find((span) => span.name === "middleware");
+    expect(middleware?.attributes["altstack.middleware.name"]).toBe("auth");
+  });
+
+  it("should record errors thrown via ctx.error on the handler span", async () => {
+    const res = await app.request("/api/users/missing");
+    expect(res.status).toBe(404);
+
+    const handler = exporter
+      .getFinishedSpans()
+      .find((span) => span.name === "handler");
+    expect(handler?.status.code).toBe(SpanStatusCode.ERROR);
+    expect(handler?.events[0]?.name).toBe("exception");
+  });
+
+  it("should continue the trace of an incoming traceparent header", async () => {
+    const traceId = "4bf92f3577b34da6a3ce929d0e0e4736";
+    await app.request("/api/users/1", {
+      headers: { traceparent: `00-${traceId}-00f067aa0ba902b7-01` },
+    });
+
+    const spans = exporter.getFinishedSpans();
+    expect(spans.every((span) => span.spanContext().traceId === traceId)).toBe(
+      true,
+    );
+    const root = spans.find((span) => span.name === "GET /api/users/:id");
+    expect(root?.parentSpanContext?.spanId).toBe("00f067aa0ba902b7");
+  });
+});
@@ -0,0 +1,56 @@
+import {
+  startSpan,
+  withChildSpan as withParentSpan,
+} from "@alt-stack/tracing";
+import type {
+  Attributes,
+  Context as TraceContext,
+  Span,
+  SpanOptions,
+  Tracer,
+} from "@opentelemetry/api";
+import type { Context } from "hono";
+
+export {
+  recordSpanError,
+  SPAN_KIND_SERVER,
+  SPAN_STATUS_ERROR,
+} from "@alt-stack/tracing";
+
+const traceContextKey = "altstack.traceContext";
+
+/**
+ * Starts the span of a request, continuing the trace of incoming
+ * traceparent/tracestate headers through the global propagator
+ */
+export async function startRequestSpan(
+  c: Context,
+  tracer: Tracer,
+  name: string,
+  options: SpanOptions,
+): Promise<Span> {
+  const { span, context } = await startSpan(
+    tracer,
+    name,
+    options,
+    c.req.header(),
+  );
+  c.set(traceContextKey, context);
+  return span;
+}
+
+/**
+ * Runs `fn` in a child span of the request span, or directly when the
+ * request is not traced
+ * Errors are recorded on the child span and rethrown
+ */
+export function withChildSpan<T>(
+  c: Context,
+  tracer: Tracer | undefined,
+  name: string,
+  attributes: Attributes,
+  fn: () => Promise<T> | T,
+): Promise<T> {
+  const parent = c.get(traceContextKey) as TraceContext | undefined;
+  return withParentSpan(tracer, parent, name, attributes, fn);
+}
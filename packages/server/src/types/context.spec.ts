@@ -49,6 +49,17 @@ describe("Context Types", () => {
         title: string;
       }>();
     });
+
+    it("should merge headers and cookies", () => {
+      type Input = InferInput<{
+        headers: z.ZodObject<{ "x-tenant-id": z.ZodString }>;
+        cookies: z.ZodObject<{ session: z.ZodString }>;
+      }>;
+      expectTypeOf<Input>().toMatchTypeOf<{
+        "x-tenant-id": string;
+        session: string;
+      }>();
+    });
   });
 
   describe("ErrorUnion", () => {
@@ -127,10 +138,27 @@ describe("Context Types", () => {
 
       expectTypeOf<Ctx["error"]>().toBeFunction();
       expectTypeOf<Ctx["error"]>().parameters.toEqualTypeOf<
-        [{ code: "NOT_FOUND" }]
+        [{ code: "NOT_FOUND" }] | [status: 404, error: { code: "NOT_FOUND" }]
       >();
     });
 
+    it("should narrow the error body to an explicit status", () => {
+      type Ctx = TypedContext<
+        {},
+        {
+          401: z.ZodObject<{ code: z.ZodLiteral<"UNAUTHORIZED"> }>;
+          404: z.ZodObject<{ code: z.ZodLiteral<"NOT_FOUND"> }>;
+        }
+      >;
+
+      const throwErrors = (error: Ctx["error"]) => {
+        error(404, { code: "NOT_FOUND" });
+        // @ts-expect-error the 404 schema doesn't accept UNAUTHORIZED
+        error(404, { code: "UNAUTHORIZED" });
+      };
+      expectTypeOf(throwErrors).toBeFunction();
+    });
+
     it("should not include error function when errors undefined", () => {
       type Ctx = TypedContext<{}, undefined>;
 
@@ -1,8 +1,17 @@
 import type { Context } from "hono";
 import type { z } from "zod";
+import type { Logger } from "../logger.js";
+import type { ProcedureMeta } from "./procedure.js";
 
 export type InferOutput<T extends z.ZodTypeAny> = z.infer<T>;
 
+/**
+ * Value a handler may return: the output schema's type, or nothing when no
+ * output schema is declared (e.g. `.status(204)` procedures)
+ */
+export type HandlerOutput<T extends z.ZodTypeAny | undefined> =
+  T extends z.ZodTypeAny ? InferOutput<T> : void;
+
 export type InferErrorSchemas<T extends Record<number, z.ZodTypeAny>> = {
   [K in keyof T]: z.infer<T[K]>;
 };
@@ -10,12 +19,43 @@ export type InferErrorSchemas<T extends Record<number, z.ZodTypeAny>> = {
 export type ErrorUnion<T extends Record<number, z.ZodTypeAny>> =
   InferErrorSchemas<T>[keyof InferErrorSchemas<T>];
 
+/**
+ * `ctx.error()` of a procedure with declared `.errors()`
+ */
+export interface ErrorFunction<TErrors extends Record<number, z.ZodTypeAny>> {
+  /**
+   * Throws the error with the status of the schema it matches
+   * Errors matching several schemas need an explicit status
+   */
+  (error: ErrorUnion<TErrors>): never;
+  /** Throws the error declared for `status` */
+  <TStatus extends keyof TErrors & number>(
+    status: TStatus,
+    error: z.infer<TErrors[TStatus]>,
+  ): never;
+}
+
+export type BodyContentType =
+  | "application/json"
+  | "application/x-www-form-urlencoded"
+  | "multipart/form-data";
+
 export interface InputConfig {
   params?: z.ZodTypeAny;
   query?: z.ZodTypeAny;
   body?: z.ZodTypeAny;
+  /** Encoding of the request body, defaults to "application/json" */
+  contentType?: BodyContentType;
+  /** Validated against lowercased request header names */
+  headers?: z.ZodTypeAny;
+  cookies?: z.ZodTypeAny;
 }
 
+/**
+ * Input source reported alongside each ZodError when validation fails
+ */
+export type InputVariant = "body" | "param" | "query" | "header" | "cookie";
+
 export type InferInput<T extends InputConfig> = (T extends { params: infer P }
   ? P extends z.ZodTypeAny
     ? z.infer<P>
@@ -30,6 +70,16 @@ export type InferInput<T extends InputConfig> = (T extends { params: infer P }
     ? B extends z.ZodTypeAny
       ? z.infer<B>
       : {}
+    : {}) &
+  (T extends { headers: infer H }
+    ? H extends z.ZodTypeAny
+      ? z.infer<H>
+      : {}
+    : {}) &
+  (T extends { cookies: infer C }
+    ? C extends z.ZodTypeAny
+      ? z.infer<C>
+      : {}
     : {});
 
 export interface BaseContext {
@@ -40,10 +90,31 @@ export type TypedContext<
   TInput extends InputConfig,
   TErrors extends Record<number, z.ZodTypeAny> | undefined,
   TCustomContext extends object = Record<string, never>,
+  TResponseHeaders extends z.ZodTypeAny | undefined = undefined,
 > = BaseContext &
   TCustomContext & {
+    /** Incoming x-request-id when valid, otherwise a generated UUID */
+    requestId: string;
+    /** Logger carrying the request id, method and path */
+    log: Logger;
     input: InferInput<TInput>;
+    /** Set by `.meta()`, empty when the procedure has none */
+    meta: ProcedureMeta;
     error: TErrors extends Record<number, z.ZodTypeAny>
-      ? (error: ErrorUnion<TErrors>) => never
+      ? ErrorFunction<TErrors>
+      : never;
+    /**
+     * Sets the ETag of the response from the resource's version, instead of
+     * hashing the body in procedures with `.cache()`
+     */
+    setETag: (version: string | number, options?: { weak?: boolean }) => void;
+    /**
+     * Throws a 412 when the request's If-Match header doesn't list the
+     * current version, e.g. before updating the resource
+     */
+    ifMatch: (version: string | number) => void;
+    /** Sets declared response headers, validated before the response is sent */
+    setHeaders: TResponseHeaders extends z.ZodTypeAny
+      ? (headers: Partial<z.input<TResponseHeaders>>) => void
       : never;
   };
@@ -1,9 +1,13 @@
 // Re-export all types from context.ts
 export type {
   InferOutput,
+  HandlerOutput,
   InferErrorSchemas,
+  ErrorFunction,
   ErrorUnion,
+  BodyContentType,
   InputConfig,
+  InputVariant,
   InferInput,
   BaseContext,
   TypedContext,
@@ -15,7 +19,16 @@ export type {
   ExtractPathParams,
   RequireParamsForPath,
   ProcedureConfig,
+  SuccessStatusCode,
+  ProcedureMeta,
   Procedure,
   ReadyProcedure,
   PendingProcedure,
 } from "./procedure.js";
+
+// Re-export all types from websocket.ts
+export type {
+  TypedWebSocket,
+  WebSocketHandlerOptions,
+  WebSocketHandlers,
+} from "./websocket.js";
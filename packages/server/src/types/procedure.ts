@@ -2,10 +2,14 @@ import type { z } from "zod";
 import type {
   TypedContext,
   InferInput,
-  InferOutput,
+  HandlerOutput,
   InputConfig,
 } from "./context.js";
 import type { AnyMiddlewareFunction } from "../middleware.js";
+import type { IdempotencyOptions } from "../idempotency.js";
+import type { Serializer } from "../serializers.js";
+import type { CacheOptions } from "../cache.js";
+import type { SecurityHeadersOptions } from "../security-headers.js";
 
 export type AcceptsStringInput<T extends z.ZodTypeAny> =
   z.input<T> extends string
@@ -43,6 +47,26 @@ export type RequireParamsForPath<
         : never
       : never;
 
+export type SuccessStatusCode = 200 | 201 | 202 | 203 | 204 | 205 | 206;
+
+/**
+ * Documentation of an operation, emitted into the OpenAPI spec and readable
+ * as `ctx.meta` at runtime
+ */
+export interface ProcedureMeta {
+  tags?: string[];
+  summary?: string;
+  description?: string;
+  deprecated?: boolean;
+  /**
+   * Replaces the generated operationId, e.g. "getTodo". Must be unique, so
+   * set it on the final procedure rather than a reusable one
+   */
+  operationId?: string;
+  /** Specification extensions, e.g. "x-internal", emitted as is */
+  [extension: `x-${string}`]: unknown;
+}
+
 export interface ProcedureConfig<
   TPath extends string,
   TInput extends InputConfig,
@@ -74,14 +98,37 @@ export interface Procedure<
     input: TInput;
     output?: TOutput;
     errors?: TErrors;
+    status?: SuccessStatusCode;
+    responseHeaders?: z.ZodTypeAny;
+    /** Set by `.stream()`: output is the schema of each Server-Sent Event */
+    stream?: boolean;
+    /** Set by `.websocket()`: schemas of the messages exchanged after upgrade */
+    websocket?: { inbound: z.ZodTypeAny; outbound: z.ZodTypeAny };
+    /** Set by `.idempotent()`: replays responses for repeated Idempotency-Keys */
+    idempotency?: IdempotencyOptions;
+    /** Set by `.produces()`: serializers chosen by the Accept header */
+    produces?: Serializer[];
+    /** Set by `.cache()`: ETags, conditional requests and Cache-Control */
+    cache?: CacheOptions;
+    /** Set by `.bodyLimit()`: overrides the `bodyLimit` of `createServer` */
+    bodyLimit?: number;
+    /** Set by `.meta()`: tags, summary and other operation documentation */
+    meta?: ProcedureMeta;
   };
   handler: (
     ctx: TypedContext<TInput, TErrors, TCustomContext>,
   ) =>
-    | Promise<InferOutput<NonNullable<TOutput>> | Response>
-    | InferOutput<NonNullable<TOutput>>
+    | Promise<HandlerOutput<TOutput> | Response>
+    | HandlerOutput<TOutput>
     | Response;
   middleware: AnyMiddlewareFunction[];
+  /**
+   * Set by `router.use()`, outermost router first. Runs before the input is
+   * read and validated, so `ctx.input` is not set yet
+   */
+  routerMiddleware: AnyMiddlewareFunction[];
+  /** Set by `router.securityHeaders()`, innermost router first */
+  securityHeaders?: SecurityHeadersOptions;
 }
 
 export interface ReadyProcedure<
@@ -95,13 +142,29 @@ export interface ReadyProcedure<
     input: TInput;
     output?: TOutput;
     errors?: TErrors;
+    status?: SuccessStatusCode;
+    responseHeaders?: z.ZodTypeAny;
+    /** Set by `.stream()`: output is the schema of each Server-Sent Event */
+    stream?: boolean;
+    /** Set by `.websocket()`: schemas of the messages exchanged after upgrade */
+    websocket?: { inbound: z.ZodTypeAny; outbound: z.ZodTypeAny };
+    /** Set by `.idempotent()`: replays responses for repeated Idempotency-Keys */
+    idempotency?: IdempotencyOptions;
+    /** Set by `.produces()`: serializers chosen by the Accept header */
+    produces?: Serializer[];
+    /** Set by `.cache()`: ETags, conditional requests and Cache-Control */
+    cache?: CacheOptions;
+    /** Set by `.bodyLimit()`: overrides the `bodyLimit` of `createServer` */
+    bodyLimit?: number;
+    /** Set by `.meta()`: tags, summary and other operation documentation */
+    meta?: ProcedureMeta;
   };
   handler: (opts: {
     input: InferInput<TInput>;
     ctx: TypedContext<TInput, TErrors, TCustomContext>;
   }) =>
-    | Promise<InferOutput<NonNullable<TOutput>> | Response>
-    | InferOutput<NonNullable<TOutput>>
+    | Promise<HandlerOutput<TOutput> | Response>
+    | HandlerOutput<TOutput>
     | Response;
   middleware: AnyMiddlewareFunction[];
 }
@@ -116,13 +179,29 @@ export interface PendingProcedure<
     input: TInput;
     output?: TOutput;
     errors?: TErrors;
+    status?: SuccessStatusCode;
+    responseHeaders?: z.ZodTypeAny;
+    /** Set by `.stream()`: output is the schema of each Server-Sent Event */
+    stream?: boolean;
+    /** Set by `.websocket()`: schemas of the messages exchanged after upgrade */
+    websocket?: { inbound: z.ZodTypeAny; outbound: z.ZodTypeAny };
+    /** Set by `.idempotent()`: replays responses for repeated Idempotency-Keys */
+    idempotency?: IdempotencyOptions;
+    /** Set by `.produces()`: serializers chosen by the Accept header */
+    produces?: Serializer[];
+    /** Set by `.cache()`: ETags, conditional requests and Cache-Control */
+    cache?: CacheOptions;
+    /** Set by `.bodyLimit()`: overrides the `bodyLimit` of `createServer` */
+    bodyLimit?: number;
+    /** Set by `.meta()`: tags, summary and other operation documentation */
+    meta?: ProcedureMeta;
   };
   handler: (opts: {
     input: InferInput<TInput>;
     ctx: TypedContext<TInput, TErrors, TCustomContext>;
   }) =>
-    | Promise<InferOutput<NonNullable<TOutput>> | Response>
-    | InferOutput<NonNullable<TOutput>>
+    | Promise<HandlerOutput<TOutput> | Response>
+    | HandlerOutput<TOutput>
     | Response;
   middleware: AnyMiddlewareFunction[];
 }
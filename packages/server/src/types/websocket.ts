@@ -0,0 +1,57 @@
+import type { WSContext } from "hono/ws";
+import type { z } from "zod";
+import type { InputConfig, InferInput, TypedContext } from "./context.js";
+
+/**
+ * Connection handle passed to WebSocket handlers
+ * `send` validates and serializes messages with the outbound schema
+ */
+export interface TypedWebSocket<TOutbound extends z.ZodTypeAny> {
+  send: (message: z.input<TOutbound>) => void;
+  close: (code?: number, reason?: string) => void;
+  raw: WSContext;
+}
+
+export interface WebSocketHandlerOptions<
+  TInput extends InputConfig,
+  TErrors extends Record<number, z.ZodTypeAny> | undefined,
+  TCustomContext extends object,
+  TOutbound extends z.ZodTypeAny,
+> {
+  input: InferInput<TInput>;
+  ctx: TypedContext<TInput, TErrors, TCustomContext>;
+  ws: TypedWebSocket<TOutbound>;
+}
+
+/**
+ * Message schemas and lifecycle handlers of a WebSocket procedure
+ */
+export interface WebSocketHandlers<
+  TInput extends InputConfig,
+  TErrors extends Record<number, z.ZodTypeAny> | undefined,
+  TCustomContext extends object,
+  TInbound extends z.ZodTypeAny,
+  TOutbound extends z.ZodTypeAny,
+> {
+  inbound: TInbound;
+  outbound: TOutbound;
+  onOpen?: (
+    opts: WebSocketHandlerOptions<TInput, TErrors, TCustomContext, TOutbound>,
+  ) => void | Promise<void>;
+  onMessage: (
+    opts: WebSocketHandlerOptions<
+      TInput,
+      TErrors,
+      TCustomContext,
+      TOutbound
+    > & { message: z.output<TInbound> },
+  ) => void | Promise<void>;
+  onClose?: (
+    opts: WebSocketHandlerOptions<
+      TInput,
+      TErrors,
+      TCustomContext,
+      TOutbound
+    > & { code: number; reason: string },
+  ) => void | Promise<void>;
+}
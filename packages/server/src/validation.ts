@@ -1,6 +1,8 @@
 import { z } from "zod";
-import type { InputConfig } from "./types/index.js";
+import type { InputConfig, InputVariant } from "./types/index.js";
 import { ValidationError } from "./errors.js";
+import { coerceQuery } from "./query.js";
+import { defOf } from "./zod-introspection.js";
 
 export interface ParseResult<T> {
   success: boolean;
@@ -51,14 +53,38 @@ export function mergeInputs(
   };
 }
 
+/**
+ * The members of `value` an object schema declares. Validation errors carry
+ * the value they checked, which must not include headers and cookies the
+ * procedure never asked for, like Authorization
+ */
+function pickDeclared(
+  schema: z.ZodTypeAny,
+  value: Record<string, unknown>,
+): Record<string, unknown> {
+  let def = defOf(schema);
+  while (def.innerType) {
+    def = defOf(def.innerType as z.ZodTypeAny);
+  }
+  if (def.type !== "object") {
+    return {};
+  }
+  const shape = def.shape as Record<string, z.ZodTypeAny>;
+  return Object.fromEntries(
+    Object.entries(value).filter(([key]) => Object.hasOwn(shape, key)),
+  );
+}
+
 export async function validateInput<T extends InputConfig>(
   config: T,
   params: Record<string, unknown>,
   query: Record<string, unknown>,
   body: unknown,
+  headers: Record<string, unknown> = {},
+  cookies: Record<string, unknown> = {},
 ): Promise<Record<string, unknown>> {
   const validated: Record<string, unknown> = {};
-  const validationErrors: Array<[z.ZodError, "body" | "param" | "query", unknown]> = [];
+  const validationErrors: Array<[z.ZodError, InputVariant, unknown]> = [];
 
   if (config.params) {
     const result = await parseSchema(config.params, params);
@@ -73,7 +99,10 @@ export async function validateInput<T extends InputConfig>(
   }
 
   if (config.query) {
-    const result = await parseSchema(config.query, query);
+    const result = await parseSchema(
+      config.query,
+      coerceQuery(config.query, query),
+    );
     if (!result.success) {
       const zodError = result.error?.details as z.ZodError;
       if (zodError) {
@@ -100,6 +129,38 @@ export async function validateInput<T extends InputConfig>(
     }
   }
 
+  if (config.headers) {
+    const result = await parseSchema(config.headers, headers);
+    if (!result.success) {
+      const zodError = result.error?.details as z.ZodError;
+      if (zodError) {
+        validationErrors.push([
+          zodError,
+          "header",
+          pickDeclared(config.headers, headers),
+        ]);
+      }
+    } else {
+      Object.assign(validated, result.data);
+    }
+  }
+
+  if (config.cookies) {
+    const result = await parseSchema(config.cookies, cookies);
+    if (!result.success) {
+      const zodError = result.error?.details as z.ZodError;
+      if (zodError) {
+        validationErrors.push([
+          zodError,
+          "cookie",
+          pickDeclared(config.cookies, cookies),
+        ]);
+      }
+    } else {
+      Object.assign(validated, result.data);
+    }
+  }
+
   // Throw with all accumulated errors if any validation failed
   if (validationErrors.length > 0) {
     throw new ValidationError(
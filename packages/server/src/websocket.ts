@@ -0,0 +1,131 @@
+import type { WSContext, WSEvents, WSMessageReceive } from "hono/ws";
+import type { z } from "zod";
+import type {
+  InputConfig,
+  TypedWebSocket,
+  WebSocketHandlers,
+} from "./types/index.js";
+import { ServerError, ValidationError } from "./errors.js";
+import {
+  reportInternalError,
+  toInternalErrorBody,
+} from "./error-reporting.js";
+import { formatError } from "./problem.js";
+import { releaseRequest } from "./request-context.js";
+
+// WebSocket.OPEN
+const OPEN = 1;
+
+function parseMessage(data: WSMessageReceive): unknown {
+  if (typeof data !== "string") {
+    return undefined;
+  }
+  try {
+    return JSON.parse(data);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Adapts typed WebSocket handlers to Hono's WSEvents.
+ * Messages are handled one at a time in arrival order, after `onOpen` settles.
+ * Invalid inbound messages and handler failures are answered with an error
+ * frame instead of closing the connection.
+ * Once the server has upgraded the request, its services and context are
+ * released after `onClose`, or on an error before the socket opened.
+ */
+export function createWebSocketEvents(
+  handlers: WebSocketHandlers<
+    InputConfig,
+    Record<number, z.ZodTypeAny> | undefined,
+    any,
+    z.ZodTypeAny,
+    z.ZodTypeAny
+  >,
+  opts: { input: any; ctx: any },
+): WSEvents {
+  let queue = Promise.resolve();
+  let opened = false;
+  const release = () => releaseRequest(opts.ctx.hono);
+
+  const socket = (ws: WSContext): TypedWebSocket<z.ZodTypeAny> => ({
+    send: (message) =>
+      ws.send(JSON.stringify(handlers.outbound.parse(message))),
+    close: (code, reason) => ws.close(code, reason),
+    raw: ws,
+  });
+
+  const enqueue = (ws: WSContext, run: () => unknown) => {
+    queue = queue.then(async () => {
+      try {
+        await run();
+      } catch (error) {
+        if (error instanceof ServerError && error.statusCode < 500) {
+          if (ws.readyState === OPEN) {
+            ws.send(
+              JSON.stringify(
+                formatError(
+                  opts.ctx.hono,
+                  error.statusCode,
+                  error.toJSON().error,
+                ),
+              ),
+            );
+          }
+          return;
+        }
+        const info = await reportInternalError(opts.ctx.hono, error);
+        if (ws.readyState === OPEN) {
+          ws.send(
+            JSON.stringify(
+              formatError(
+                opts.ctx.hono,
+                error instanceof ServerError ? error.statusCode : 500,
+                toInternalErrorBody(error, info),
+              ),
+            ),
+          );
+        }
+      }
+    });
+  };
+
+  return {
+    onOpen: (_event, ws) => {
+      opened = true;
+      enqueue(ws, () => handlers.onOpen?.({ ...opts, ws: socket(ws) }));
+    },
+    onMessage: (event, ws) =>
+      enqueue(ws, () => {
+        const result = handlers.inbound.safeParse(parseMessage(event.data));
+        if (!result.success) {
+          throw new ValidationError("Invalid message", result.error.issues);
+        }
+        return handlers.onMessage({
+          ...opts,
+          ws: socket(ws),
+          message: result.data,
+        });
+      }),
+    onClose: (event, ws) =>
+      enqueue(ws, async () => {
+        try {
+          await handlers.onClose?.({
+            ...opts,
+            ws: socket(ws),
+            code: event.code,
+            reason: event.reason,
+          });
+        } finally {
+          await release();
+        }
+      }),
+    // A socket that fails before opening may never close
+    onError: (_event, ws) => {
+      if (!opened) {
+        enqueue(ws, release);
+      }
+    },
+  };
+}
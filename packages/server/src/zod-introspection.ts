@@ -0,0 +1,19 @@
+import type { z } from "zod";
+
+/** The internal definition of a Zod schema, e.g. `{ type: "object", shape }` */
+export interface SchemaDef {
+  type: string;
+  [key: string]: unknown;
+}
+
+export const defOf = (schema: z.ZodTypeAny) =>
+  (schema as unknown as { _zod: { def: SchemaDef } })._zod.def;
+
+/** Objects with keys, as opposed to arrays, dates and primitives */
+export const isPlainObject = (
+  value: unknown,
+): value is Record<string, unknown> =>
+  typeof value === "object" &&
+  value !== null &&
+  !Array.isArray(value) &&
+  !(value instanceof Date);
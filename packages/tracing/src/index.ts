@@ -0,0 +1,79 @@
+import type {
+  Attributes,
+  Context as TraceContext,
+  Span,
+  SpanKind,
+  SpanOptions,
+  SpanStatusCode,
+  TextMapGetter,
+  Tracer,
+} from "@opentelemetry/api";
+
+type OpenTelemetryApi = typeof import("@opentelemetry/api");
+
+let api: Promise<OpenTelemetryApi> | undefined;
+
+// Only loaded once a tracer is passed, so @opentelemetry/api stays optional
+function loadApi(): Promise<OpenTelemetryApi> {
+  api ??= import("@opentelemetry/api");
+  return api;
+}
+
+// Values of the SpanKind and SpanStatusCode enums, which can't be read
+// without loading @opentelemetry/api
+export const SPAN_KIND_SERVER = 1 as SpanKind.SERVER;
+export const SPAN_KIND_CONSUMER = 4 as SpanKind.CONSUMER;
+export const SPAN_STATUS_ERROR = 2 as SpanStatusCode.ERROR;
+
+export function recordSpanError(span: Span, error: unknown): void {
+  span.recordException(error instanceof Error ? error : String(error));
+  span.setStatus({
+    code: SPAN_STATUS_ERROR,
+    message: error instanceof Error ? error.message : String(error),
+  });
+}
+
+/**
+ * Starts a span continuing the trace of the traceparent/tracestate headers
+ * in `carrier`, through the global propagator
+ */
+export async function startSpan<TCarrier>(
+  tracer: Tracer,
+  name: string,
+  options: SpanOptions,
+  carrier: TCarrier,
+  getter?: TextMapGetter<TCarrier>,
+): Promise<{ span: Span; context: TraceContext }> {
+  const { propagation, ROOT_CONTEXT, trace } = await loadApi();
+  const parent = propagation.extract(ROOT_CONTEXT, carrier, getter);
+  const span = tracer.startSpan(name, options, parent);
+  return { span, context: trace.setSpan(parent, span) };
+}
+
+/**
+ * Runs `fn` in a child span of `parent`, or directly when there is no
+ * tracer or parent
+ * Errors are recorded on the child span and rethrown
+ */
+export async function withChildSpan<T>(
+  tracer: Tracer | undefined,
+  parent: TraceContext | undefined,
+  name: string,
+  attributes: Attributes,
+  fn: () => Promise<T> | T,
+): Promise<T> {
+  if (!tracer || !parent) {
+    return fn();
+  }
+  const { context, trace } = await loadApi();
+  const span = tracer.startSpan(name, { attributes }, parent);
+  try {
+    // Spans started by user code with the active context nest under this one
+    return await context.with(trace.setSpan(parent, span), fn);
+  } catch (error) {
+    recordSpanError(span, error);
+    throw error;
+  } finally {
+    span.end();
+  }
+}
@@ -149,7 +149,9 @@ export function parseOpenApiPaths(
             const responseSchema = response as AnySchema;
             const content = responseSchema["content"];
             if (content && typeof content === "object") {
-              const jsonContent = content["application/json"];
+              // Stream procedures describe each event under text/event-stream
+              const jsonContent =
+                content["application/json"] ?? content["text/event-stream"];
               if (jsonContent && typeof jsonContent === "object") {
                 const schema = jsonContent["schema"];
                 if (schema) {